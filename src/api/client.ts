@@ -1,5 +1,9 @@
 import { requestUrl, RequestUrlParam } from 'obsidian';
 import { SupernoteFile, SupernoteFileDetail, ConnectionStatus } from './types';
+import { generateThumbnail, readFileId, HEADER_SCAN_LENGTH } from './note-parser';
+import { CancelledError } from '../utils/abort';
+import * as http from 'http';
+import * as https from 'https';
 
 /**
  * Response structure from Supernote device's embedded JSON
@@ -20,6 +24,68 @@ interface SupernoteDeviceFile {
     isDirectory: boolean;
 }
 
+/**
+ * Options for httpGet
+ */
+interface HttpGetOptions {
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+    maxBytes?: number;      // Stop reading once this much of the body has arrived
+    timeout?: number;       // Fail once the connection is idle this long (ms)
+}
+
+/**
+ * Response of httpGet
+ */
+interface HttpResponse {
+    status: number;
+    contentType: string;
+    data: ArrayBuffer;
+}
+
+/**
+ * GET a URL with Node's http module. Unlike requestUrl, aborting the signal
+ * stops the transfer, and rejects with CancelledError.
+ */
+function httpGet(url: string, options: HttpGetOptions = {}): Promise<HttpResponse> {
+    const { signal, headers, maxBytes, timeout } = options;
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+        const fail = (error: Error): void => reject(signal?.aborted ? new CancelledError() : error);
+
+        const request = (url.startsWith('https:') ? https : http).get(url, { signal, headers }, response => {
+            const chunks: Buffer[] = [];
+            let received = 0;
+            const finish = (): void => {
+                const data = Buffer.concat(chunks).subarray(0, maxBytes);
+                resolve({
+                    status: response.statusCode ?? 0,
+                    contentType: response.headers['content-type'] ?? '',
+                    data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+                });
+            };
+
+            response.on('data', (chunk: Buffer) => {
+                chunks.push(chunk);
+                received += chunk.length;
+                if (maxBytes !== undefined && received >= maxBytes) {
+                    finish();
+                    request.destroy();
+                }
+            });
+            response.on('error', fail);
+            response.on('end', finish);
+        });
+        request.on('error', fail);
+        if (timeout) {
+            request.setTimeout(timeout, () => request.destroy(new Error(`No response from the device within ${timeout} ms`)));
+        }
+    });
+}
+
 /**
  * API client for communicating directly with the Supernote device's built-in web server.
  * 
@@ -31,6 +97,10 @@ export class SupernoteAPIClient {
     private port: number;
     private timeout: number;
 
+    // FILE_IDs read from note headers, keyed by device URI + size + date so a
+    // changed file is re-read. Persisted by the plugin to avoid refetching headers.
+    private fileIdCache: Record<string, string> = {};
+
     // Regex to extract JSON from the HTML response
     private static readonly RE_JSON = /const json = '({[^']+})'/;
 
@@ -55,6 +125,20 @@ export class SupernoteAPIClient {
         this.port = port;
     }
 
+    /**
+     * Set the FILE_ID cache (e.g. loaded from plugin data)
+     */
+    setFileIdCache(cache: Record<string, string>): void {
+        this.fileIdCache = { ...cache };
+    }
+
+    /**
+     * Get the FILE_ID cache for persisting; only contains files seen in the last listing
+     */
+    getFileIdCache(): Record<string, string> {
+        return { ...this.fileIdCache };
+    }
+
     /**
      * Check if the Supernote device is reachable
      * Uses a GET request to the root path and looks for the embedded JSON
@@ -102,8 +186,10 @@ export class SupernoteAPIClient {
     async fetchNoteFiles(): Promise<{ data: SupernoteFile[] }> {
         try {
             const allNotes: SupernoteFile[] = [];
-            await this.scanDirectory('/Note', allNotes);
-            return { data: allNotes };
+            const nextCache: Record<string, string> = {};
+            await this.scanDirectory('/Note', allNotes, nextCache);
+            this.fileIdCache = nextCache;
+            return { data: this.resolveDuplicateIds(allNotes) };
         } catch (error) {
             console.error('Failed to fetch note files:', error);
             throw new Error(`Failed to fetch notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -113,20 +199,82 @@ export class SupernoteAPIClient {
     /**
      * Recursively scan a directory for .note files
      */
-    private async scanDirectory(path: string, results: SupernoteFile[]): Promise<void> {
+    private async scanDirectory(path: string, results: SupernoteFile[], fileIds: Record<string, string>): Promise<void> {
         const response = await this.listDirectory(path);
         
         for (const file of response.fileList) {
             if (file.isDirectory) {
                 // Recursively scan subdirectories
-                await this.scanDirectory(file.uri, results);
+                await this.scanDirectory(file.uri, results, fileIds);
             } else if (file.extension === 'note') {
                 // Convert device file format to our SupernoteFile format
-                results.push(this.convertToSupernoteFile(file));
+                const fileId = await this.getFileId(file);
+                if (fileId) {
+                    fileIds[this.getFileIdCacheKey(file)] = fileId;
+                }
+                results.push(this.convertToSupernoteFile(file, fileId));
+            }
+        }
+    }
+
+    /**
+     * A note keeps its FILE_ID when edited, so a new modified date alone doesn't
+     * call for reading the header again
+     */
+    private getFileIdCacheKey(file: SupernoteDeviceFile): string {
+        return `${file.uri}|${file.size}`;
+    }
+
+    /**
+     * Get the persistent FILE_ID of a note, reading only its header when not cached.
+     * Returns null if it can't be read (identity then falls back to the path hash).
+     */
+    private async getFileId(file: SupernoteDeviceFile): Promise<string | null> {
+        const cached = this.fileIdCache[this.getFileIdCacheKey(file)];
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            // Devices that ignore Range answer 200 with the whole file; reading
+            // stops after the header either way
+            const response = await httpGet(`${this.baseURL}${this.encodePath(this.getDevicePath(file))}`, {
+                headers: { Range: `bytes=0-${HEADER_SCAN_LENGTH - 1}` },
+                maxBytes: HEADER_SCAN_LENGTH,
+                timeout: this.timeout,
+            });
+
+            if (response.status !== 200 && response.status !== 206) {
+                return null;
             }
+            return readFileId(response.data);
+        } catch (error) {
+            console.debug(`[client] Could not read header of ${file.uri}:`, error);
+            return null;
         }
     }
 
+    /**
+     * Copying a note on the device copies its FILE_ID. Keep the FILE_ID identity for
+     * the first copy (by path) and fall back to path hashes for the others.
+     */
+    private resolveDuplicateIds(notes: SupernoteFile[]): SupernoteFile[] {
+        const byPath = [...notes].sort((a, b) => a.path.localeCompare(b.path));
+        const seenIds = new Set<string>();
+        const duplicates = new Set<SupernoteFile>();
+
+        for (const note of byPath) {
+            if (seenIds.has(note.id) && note.legacyId) {
+                duplicates.add(note);
+            }
+            seenIds.add(note.id);
+        }
+
+        return notes.map(note => duplicates.has(note)
+            ? { ...note, id: note.legacyId!, legacyId: undefined }
+            : note);
+    }
+
     /**
      * List contents of a directory on the Supernote device
      */
@@ -156,17 +304,24 @@ export class SupernoteAPIClient {
         }
     }
 
+    /**
+     * Decoded device path of a listed file, e.g. "/Note/My note.note".
+     * Note: Supernote uses + for spaces in URLs, but decodeURIComponent doesn't handle +
+     */
+    private getDevicePath(file: SupernoteDeviceFile): string {
+        return decodeURIComponent(file.uri).replace(/\+/g, ' ');
+    }
+
     /**
      * Convert device file format to our internal SupernoteFile format
      */
-    private convertToSupernoteFile(file: SupernoteDeviceFile): SupernoteFile {
+    private convertToSupernoteFile(file: SupernoteDeviceFile, fileId: string | null): SupernoteFile {
         // Parse the date from "YYYY-MM-DD HH:MM" format
         const dateStr = file.date;
         const parsedDate = new Date(dateStr.replace(' ', 'T') + ':00');
         
         // Extract filename from URI and decode properly
-        // Note: Supernote uses + for spaces in URLs, but decodeURIComponent doesn't handle +
-        const decodedUri = decodeURIComponent(file.uri).replace(/\+/g, ' ');
+        const decodedUri = this.getDevicePath(file);
         const rawName = decodedUri.split('/').pop()?.replace('.note', '') || 'Untitled';
         // Clean up the name: convert + to spaces (for user-created filenames with spaces)
         const name = rawName
@@ -174,11 +329,14 @@ export class SupernoteAPIClient {
             .replace(/\s+/g, ' ')          // normalize multiple spaces
             .trim();
         
-        // Generate a stable ID from the URI path
-        const id = this.generateFileId(file.uri);
+        // Identity comes from the FILE_ID in the note header, which survives renames and moves.
+        // The path hash is the fallback (and the ID used by earlier versions).
+        const pathId = this.generateFileId(file.uri);
+        const id = fileId ? `sn-${fileId}` : pathId;
 
         return {
             id,
+            legacyId: fileId ? pathId : undefined,
             name,
             path: decodedUri,
             size: file.size,
@@ -189,7 +347,7 @@ export class SupernoteAPIClient {
     }
 
     /**
-     * Generate a stable ID from the file path
+     * Generate an ID from the file path (fallback when the FILE_ID can't be read)
      * Uses a simple hash of the URI
      */
     private generateFileId(uri: string): string {
@@ -219,55 +377,62 @@ export class SupernoteAPIClient {
         return { ...note };
     }
 
+    /**
+     * URL of a folder in the device's Browse & Access web page
+     */
+    getBrowseUrl(folderPath: string): string {
+        return `${this.baseURL}${this.encodePath(folderPath)}`;
+    }
+
+    /**
+     * Encode path components for URL safety.
+     * The Supernote device uses + to represent spaces in URLs (form-style encoding), so:
+     * 1. Encode special characters with encodeURIComponent
+     * 2. Convert %20 (space) to + (device expects + for spaces)
+     * 3. Convert %2B back to + (device expects literal + not encoded)
+     */
+    private encodePath(path: string): string {
+        return path.split('/').map(segment => {
+            let encoded = encodeURIComponent(segment);
+            // Device uses + for spaces
+            encoded = encoded.replace(/%20/g, '+');
+            // Device expects literal + not %2B
+            encoded = encoded.replace(/%2B/g, '+');
+            return encoded;
+        }).join('/');
+    }
+
     /**
      * Download a .note file from the Supernote device
      * @param filePath The path to the file on the device (e.g., "/Note/MyNote.note")
+     * @param signal Stops the download and rejects with CancelledError once aborted
      * @returns The raw file data as ArrayBuffer
      */
-    async downloadNoteFile(filePath: string): Promise<ArrayBuffer> {
+    async downloadNoteFile(filePath: string, signal?: AbortSignal): Promise<ArrayBuffer> {
         try {
-            // Encode path components for URL safety
-            // The Supernote device uses + to represent spaces in URLs (form-style encoding)
-            // We need to:
-            // 1. Encode special characters with encodeURIComponent
-            // 2. Convert %20 (space) to + (device expects + for spaces)
-            // 3. Convert %2B back to + (device expects literal + not encoded)
-            const encodedPath = filePath.split('/').map(segment => {
-                let encoded = encodeURIComponent(segment);
-                // Device uses + for spaces
-                encoded = encoded.replace(/%20/g, '+');
-                // Device expects literal + not %2B
-                encoded = encoded.replace(/%2B/g, '+');
-                return encoded;
-            }).join('/');
-            const fullUrl = `${this.baseURL}${encodedPath}`;
+            const fullUrl = `${this.baseURL}${this.encodePath(filePath)}`;
             
             console.debug(`[client] Downloading: ${fullUrl}`);
             
-            const params: RequestUrlParam = {
-                url: fullUrl,
-                method: 'GET',
-                throw: false,
-            };
-
-            const response = await requestUrl(params);
+            const response = await httpGet(fullUrl, { signal, timeout: this.timeout });
             
-            console.debug(`[client] Response for ${filePath}: status=${response.status}, size=${response.arrayBuffer.byteLength}, content-type=${response.headers['content-type'] || 'unknown'}`);
+            console.debug(`[client] Response for ${filePath}: status=${response.status}, size=${response.data.byteLength}, content-type=${response.contentType || 'unknown'}`);
             
             if (response.status >= 400) {
                 throw new Error(`HTTP ${response.status}: Failed to download ${filePath}`);
             }
 
             // Check if we got HTML instead of binary data (device returns HTML for errors with 200 status)
-            const contentType = response.headers['content-type'] || '';
+            const contentType = response.contentType;
             if (contentType.includes('text/html')) {
                 // This is likely an error page, not the actual file
                 console.warn(`[client] Received HTML instead of binary for ${filePath} - device may have returned an error page`);
                 // Still return it - let the parser provide a better error message
             }
 
-            return response.arrayBuffer;
+            return response.data;
         } catch (error) {
+            if (error instanceof CancelledError) throw error;
             console.error(`[client] Failed to download file ${filePath}:`, error);
             throw new Error(`Failed to download file: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -281,14 +446,14 @@ export class SupernoteAPIClient {
     }
 
     /**
-     * Get a thumbnail image for a note
-     * Note: The Supernote device doesn't provide thumbnails via its API
-     * This would require downloading and parsing the .note file
+     * Get a PNG thumbnail for a note.
+     * The device's HTTP API doesn't serve thumbnails, so this downloads the .note file
+     * and uses its cached cover image or renders the first page.
      */
-    getThumbnail(_noteId: string): string | null {
-        // Thumbnails are not available from the device's HTTP API
-        // Would need to download the .note file and extract the first page
-        return null;
+    async getThumbnail(filePath: string): Promise<ArrayBuffer | null> {
+        const noteData = await this.downloadNoteFile(filePath);
+        const png = await generateThumbnail(noteData);
+        return png ? png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) : null;
     }
 
     /**
@@ -378,7 +543,7 @@ export class MockSupernoteAPIClient extends SupernoteAPIClient {
         return this.downloadNoteFile(path);
     }
 
-    getThumbnail(_noteId: string): string | null {
+    async getThumbnail(_filePath: string): Promise<ArrayBuffer | null> {
         return null;
     }
 }
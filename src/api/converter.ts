@@ -6,7 +6,9 @@
  * 2. Built-in mode: Uses a TypeScript implementation (less reliable, but no external dependency)
  */
 
-import { convertNoteToPdf, getNoteInfo } from './note-parser';
+import { convertNoteToPdf, convertNoteToPngs, convertNoteToSvgs, generateThumbnail, getNoteInfo, getPageHashes, extractNoteContent, PdfBuildOptions } from './note-parser';
+import { addTextLayer } from './pdf-text-layer';
+import { NoteContent } from './types';
 import { ConverterMode } from '../settings';
 import * as childProcess from 'child_process';
 import * as fs from 'fs';
@@ -84,6 +86,21 @@ function execAsync(cmd: string): Promise<ExecResult> {
     });
 }
 
+/**
+ * Promisified execFile. Aborting the signal kills the process.
+ */
+function execFileAsync(file: string, args: string[], signal?: AbortSignal): Promise<ExecResult> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile(file, args, { signal }, (error: Error | null, stdout: string, stderr: string) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+    });
+}
+
 /**
  * Try to find supernote_pdf in PATH using `which`
  */
@@ -217,19 +234,60 @@ export class PdfConverter {
         return getNoteInfo(noteData);
     }
 
+    /**
+     * Extract structured content (recognized text, etc.) from a .note file.
+     * Uses the built-in parser regardless of converter mode.
+     */
+    getContent(noteData: ArrayBuffer): NoteContent {
+        return extractNoteContent(noteData);
+    }
+
+    /**
+     * Export pages as SVGs built from their pen strokes (always uses the built-in parser)
+     * @param pageNumbers 1-based pages to export (all pages when omitted)
+     * @returns One entry per page; null for pages not exported or without stroke data
+     */
+    getPageSvgs(noteData: ArrayBuffer, pageNumbers?: number[]): Array<string | null> {
+        return convertNoteToSvgs(noteData, pageNumbers);
+    }
+
+    /**
+     * Render pages to PNG images (always uses the built-in renderer)
+     * @param pageNumbers 1-based pages to render (all pages when omitted)
+     * @returns One entry per page; null for pages not rendered
+     */
+    async getPagePngs(noteData: ArrayBuffer, pageNumbers?: number[]): Promise<Array<Uint8Array | null>> {
+        return convertNoteToPngs(noteData, pageNumbers);
+    }
+
+    /**
+     * Fingerprint each page, to find the pages that changed since the last sync
+     */
+    async getPageHashes(noteData: ArrayBuffer): Promise<string[]> {
+        return getPageHashes(noteData);
+    }
+
+    /**
+     * Generate a PNG thumbnail (device cover image, or the first page downscaled)
+     */
+    async getThumbnail(noteData: ArrayBuffer): Promise<Uint8Array | null> {
+        return generateThumbnail(noteData);
+    }
+
     /**
      * Convert a .note file to PDF
      * @param noteData The raw .note file data
      * @param noteId Optional identifier for logging
+     * @param options Options for the built-in converter (the CLI handles links itself)
      * @returns ConversionResult with the PDF data or error information
      */
-    async convert(noteData: ArrayBuffer, noteId?: string): Promise<ConversionResult> {
+    async convert(noteData: ArrayBuffer, noteId?: string, options?: PdfBuildOptions): Promise<ConversionResult> {
         console.debug(`[converter] Mode: ${this.mode}, CLI path: ${this.cliPath || '(not set)'}`);
 
         if (this.mode === 'cli') {
             return this.convertWithCli(noteData, noteId);
         } else {
-            return this.convertWithBuiltin(noteData, noteId);
+            return this.convertWithBuiltin(noteData, noteId, options);
         }
     }
 
@@ -289,7 +347,8 @@ export class PdfConverter {
 
             // Read the output PDF
             const pdfBuffer = await fs.promises.readFile(outputPath);
-            const pdfData = pdfBuffer.buffer.slice(pdfBuffer.byteOffset, pdfBuffer.byteOffset + pdfBuffer.byteLength);
+            const cliPdfData = pdfBuffer.buffer.slice(pdfBuffer.byteOffset, pdfBuffer.byteOffset + pdfBuffer.byteLength);
+            const pdfData = this.withTextLayer(cliPdfData, noteData, fileId);
 
             const conversionTimeMs = Date.now() - startTime;
             console.debug(`[converter-cli] Successfully converted "${fileId}" in ${conversionTimeMs}ms, PDF size: ${pdfData.byteLength} bytes`);
@@ -326,7 +385,7 @@ export class PdfConverter {
     /**
      * Convert using the built-in TypeScript implementation
      */
-    private async convertWithBuiltin(noteData: ArrayBuffer, noteId?: string): Promise<ConversionResult> {
+    private async convertWithBuiltin(noteData: ArrayBuffer, noteId?: string, options?: PdfBuildOptions): Promise<ConversionResult> {
         const startTime = Date.now();
         const fileId = noteId ?? 'unknown';
 
@@ -347,7 +406,7 @@ export class PdfConverter {
             const info = getNoteInfo(noteData);
 
             // Convert to PDF
-            const pdfData = await convertNoteToPdf(noteData);
+            const pdfData = await convertNoteToPdf(noteData, options);
 
             const conversionTimeMs = Date.now() - startTime;
 
@@ -414,9 +473,10 @@ export class PdfConverter {
      *
      * @param inputDir Directory containing .note files (can have subdirectories)
      * @param outputDir Directory where PDFs will be written (preserves folder structure)
+     * @param signal Kills the CLI process once aborted
      * @returns BatchConversionResult with success status and timing info
      */
-    async convertDirectory(inputDir: string, outputDir: string): Promise<BatchConversionResult> {
+    async convertDirectory(inputDir: string, outputDir: string, signal?: AbortSignal): Promise<BatchConversionResult> {
         const startTime = Date.now();
 
         if (this.mode !== 'cli') {
@@ -441,14 +501,19 @@ export class PdfConverter {
         console.debug(`[converter-cli] Starting batch conversion: ${inputDir} -> ${outputDir}`);
 
         try {
-            // Run the CLI converter in directory mode
-            const cmd = `"${cliPath}" --input "${inputDir}" --output "${outputDir}"`;
-            console.debug(`[converter-cli] Running: ${cmd}`);
+            // Run the CLI converter in directory mode (without a shell, so aborting kills the converter itself)
+            console.debug(`[converter-cli] Running: "${cliPath}" --input "${inputDir}" --output "${outputDir}"`);
 
-            const { stdout, stderr } = await execAsync(cmd);
+            const { stdout, stderr } = await execFileAsync(cliPath, ['--input', inputDir, '--output', outputDir], signal);
             if (stdout) console.debug(`[converter-cli] stdout: ${stdout}`);
             if (stderr) console.debug(`[converter-cli] stderr: ${stderr}`);
 
+            try {
+                await this.addTextLayersToDirectory(inputDir, outputDir);
+            } catch (error) {
+                console.warn('[converter-cli] Could not add text layers to batch output:', error);
+            }
+
             const conversionTimeMs = Date.now() - startTime;
 
             // Count output files
@@ -485,6 +550,11 @@ export class PdfConverter {
             const conversionTimeMs = Date.now() - startTime;
             const errorMsg = error instanceof Error ? error.message : String(error);
 
+            if (signal?.aborted) {
+                console.debug('[converter-cli] Batch conversion cancelled');
+                return { success: false, outputDir, error: 'Cancelled', conversionTimeMs };
+            }
+
             console.error(`[converter-cli] Batch conversion failed:`, error);
 
             return {
@@ -496,6 +566,50 @@ export class PdfConverter {
         }
     }
 
+    /**
+     * Add the invisible text layer to a CLI-generated PDF.
+     * The layer only improves search, so failures keep the original PDF.
+     */
+    private withTextLayer(pdfData: ArrayBuffer, noteData: ArrayBuffer, fileId: string): ArrayBuffer {
+        try {
+            return addTextLayer(pdfData, extractNoteContent(noteData));
+        } catch (error) {
+            console.warn(`[converter-cli] Could not add text layer to "${fileId}":`, error);
+            return pdfData;
+        }
+    }
+
+    /**
+     * Add text layers to every PDF of a batch conversion, pairing each PDF with
+     * the .note file at the same relative path in the input directory
+     */
+    private async addTextLayersToDirectory(inputDir: string, outputDir: string, relativeDir: string = ''): Promise<void> {
+        const entries = fs.readdirSync(path.join(outputDir, relativeDir), { withFileTypes: true }) as DirEntry[];
+
+        for (const entry of entries) {
+            const relativePath = path.join(relativeDir, entry.name);
+            if (entry.isDirectory()) {
+                await this.addTextLayersToDirectory(inputDir, outputDir, relativePath);
+                continue;
+            }
+            if (!entry.name.endsWith('.pdf')) continue;
+
+            const notePath = path.join(inputDir, relativePath.replace(/\.pdf$/, '.note'));
+            if (!fs.existsSync(notePath)) continue;
+
+            const pdfPath = path.join(outputDir, relativePath);
+            const noteBuffer = await fs.promises.readFile(notePath);
+            const pdfBuffer = await fs.promises.readFile(pdfPath);
+            const noteData = noteBuffer.buffer.slice(noteBuffer.byteOffset, noteBuffer.byteOffset + noteBuffer.byteLength);
+            const pdfData = pdfBuffer.buffer.slice(pdfBuffer.byteOffset, pdfBuffer.byteOffset + pdfBuffer.byteLength);
+
+            const updated = this.withTextLayer(pdfData, noteData, relativePath);
+            if (updated !== pdfData) {
+                await fs.promises.writeFile(pdfPath, Buffer.from(updated));
+            }
+        }
+    }
+
     /**
      * Create a temporary directory for batch operations
      * @param prefix - Prefix for the temp directory name
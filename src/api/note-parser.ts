@@ -6,6 +6,9 @@
  */
 
 import * as pako from 'pako';
+import { NoteContent, NoteHeading, NoteKeyword, NoteLink, NoteRect, NoteStroke, PenType, RecognizedWord, StrokePoint } from './types';
+import { buildTextLayerFont, buildTextLayerOps } from './pdf-text-layer';
+import { sha256 } from '../utils/hash';
 
 // Device dimensions
 const A5X_WIDTH = 1404;
@@ -13,6 +16,39 @@ const A5X_HEIGHT = 1872;
 const A5X2_WIDTH = 1920;
 const A5X2_HEIGHT = 2560;
 
+// Device resolutions, used to map recognition coordinates (millimetres) to pixels
+const A5X_DPI = 226;
+const A5X2_DPI = 300;
+const MM_PER_INCH = 25.4;
+
+// LINKTYPE values for outbound links
+const LINK_TYPE_PAGE = 0;
+const LINK_TYPE_NOTE = 1;
+const LINK_TYPE_WEB = 4;
+
+// Pen digitizer range along the page height: TOTALPATH coordinates are in
+// digitizer units, not pixels, and span this range on every device
+const EMR_PAGE_HEIGHT = 15819;
+const MAX_PRESSURE = 4095;
+
+// Pen type codes stored with each stroke
+const PEN_TYPES: Record<number, PenType> = {
+    1: 'ink',
+    10: 'needle',
+    11: 'marker',
+    14: 'calligraphy',
+};
+
+// Pen colors of the device as gray levels: black, dark gray, gray and white.
+// The grays are those the layer bitmaps use (see toRGBA).
+const PEN_GRAY_LEVELS = [0x00, 0x9d, 0xc9, 0xff];
+
+// Number of bytes at the start of a file that contain the header (FILE_ID etc.)
+export const HEADER_SCAN_LENGTH = 1024;
+
+// Width of generated thumbnails, in pixels
+const THUMBNAIL_WIDTH = 280;
+
 // Metadata regex pattern
 const METADATA_RE = /<([^:]+?):([^>]*?)>/g;
 
@@ -27,15 +63,26 @@ const VALID_SIGNATURE_PREFIXES = [
 // Minimum file size for a valid .note file (header + footer at minimum)
 const MIN_NOTE_FILE_SIZE = 100;
 
+// Upper bound for compressed page images kept in memory between conversions
+const PAGE_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+
 interface Layer {
     key: string;
     protocol: string;
     bitmapAddress: number;
 }
 
+interface Recognition {
+    text: string;
+    words: RecognizedWord[];
+}
+
 interface Page {
     addr: number;
+    pageId: string;
     layers: Layer[];
+    recognition: Recognition | null;
+    totalPathAddr: number;
 }
 
 interface Notebook {
@@ -43,6 +90,62 @@ interface Notebook {
     pages: Page[];
     width: number;
     height: number;
+    dpi: number;
+    keywords: NoteKeyword[];
+    headings: NoteHeading[];
+    links: NoteLink[];
+}
+
+/**
+ * Options for PDF generation
+ */
+export interface PdfBuildOptions {
+    pdfPath?: string;       // Vault path the PDF is written to, used to make links to other notes relative
+    resolveNotePdf?: (devicePath: string) => string | undefined; // Vault path of a linked note's PDF, if any
+    pageCache?: PageImageCache; // Where unchanged pages are reused from (in memory when not given)
+}
+
+/**
+ * Compressed page images by page hash and size, reused for pages unchanged
+ * since an earlier conversion
+ */
+export interface PageImageCache {
+    get(key: string): Promise<Uint8Array | null>;
+    set(key: string, image: Uint8Array): Promise<void>;
+}
+
+/**
+ * Optional navigation data layered on top of the page images
+ */
+interface PdfExtras {
+    headings?: NoteHeading[];
+    links?: NoteLink[];
+    pdfPath?: string;
+    resolveNotePdf?: (devicePath: string) => string | undefined;
+    words?: RecognizedWord[][];     // Recognized words per page, written as invisible text
+}
+
+/**
+ * Subset of MyScript's JIIX export format, which the device stores (base64 encoded)
+ * in each page's RECOGNTEXT block. Bounding boxes are in millimetres.
+ */
+interface JiixBoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface JiixWord {
+    label?: string;
+    'bounding-box'?: JiixBoundingBox;
+}
+
+interface JiixElement {
+    type?: string;
+    label?: string;
+    words?: JiixWord[];
+    elements?: JiixElement[];
 }
 
 /**
@@ -178,6 +281,217 @@ function parseMetadataBlock(reader: BinaryReader, address: number): Map<string,
     return map;
 }
 
+/**
+ * Read a raw length-prefixed data block at a given address
+ */
+function readDataBlock(reader: BinaryReader, address: number): Uint8Array | null {
+    if (address <= 0 || address > reader.length - 4) {
+        return null;
+    }
+
+    reader.seek(address);
+    const blockLen = reader.readU32LE();
+
+    if (blockLen <= 0 || blockLen > reader.length - address - 4) {
+        console.warn(`Invalid data block length: ${blockLen} at address ${address} (file length: ${reader.length})`);
+        return null;
+    }
+
+    return reader.readBytes(blockLen);
+}
+
+/**
+ * Decode a RECOGNTEXT block (base64 encoded JIIX) into plain text and positioned words
+ */
+function decodeRecognText(data: Uint8Array, dpi: number): Recognition | null {
+    try {
+        const base64 = new TextDecoder().decode(data).trim();
+        const binary = atob(base64);
+        const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+        const jiix = JSON.parse(new TextDecoder().decode(bytes)) as JiixElement;
+
+        // Newer firmware wraps text blocks in an "elements" list, older writes a single Text root
+        const elements = jiix.elements ?? [jiix];
+        const scale = dpi / MM_PER_INCH;
+
+        const lines: string[] = [];
+        const words: RecognizedWord[] = [];
+
+        for (const element of elements) {
+            if (element.type !== 'Text') continue;
+
+            const label = element.label?.trim();
+            if (label) {
+                lines.push(label);
+            }
+
+            for (const word of element.words ?? []) {
+                const text = word.label?.trim();
+                const box = word['bounding-box'];
+                if (!text || !box) continue;
+
+                words.push({
+                    text,
+                    x: box.x * scale,
+                    y: box.y * scale,
+                    width: box.width * scale,
+                    height: box.height * scale,
+                });
+            }
+        }
+
+        if (lines.length === 0) {
+            return null;
+        }
+
+        return { text: lines.join('\n'), words };
+    } catch (err) {
+        console.warn('[note-parser] Failed to decode recognized text:', err);
+        return null;
+    }
+}
+
+/**
+ * Extract the 1-based page number encoded in a footer key (e.g. "KEYWORD_0003..." -> 3)
+ */
+function parsePageFromKey(key: string, prefix: string): number {
+    return parseInt(key.slice(prefix.length, prefix.length + 4), 10);
+}
+
+/**
+ * Parse lasso-marked keywords from the footer's KEYWORD_* entries
+ */
+function parseKeywords(reader: BinaryReader, footerMap: Map<string, string>): NoteKeyword[] {
+    const entries: Array<[string, NoteKeyword]> = [];
+
+    footerMap.forEach((value, key) => {
+        if (!key.startsWith('KEYWORD_')) return;
+
+        const keywordMap = parseMetadataBlock(reader, parseInt(value, 10));
+        const text = keywordMap.get('KEYWORD')?.trim();
+        if (!text) return;
+
+        // Prefer the explicit page field, fall back to the page encoded in the key
+        const explicitPage = parseInt(keywordMap.get('KEYWORDPAGE') || '', 10);
+        const pageNumber = isNaN(explicitPage) ? parsePageFromKey(key, 'KEYWORD_') : explicitPage;
+
+        entries.push([key, { text, pageNumber: isNaN(pageNumber) ? 1 : pageNumber }]);
+    });
+
+    // Keys encode page and vertical position, so sorting them gives reading order
+    entries.sort((a, b) => a[0].localeCompare(b[0]));
+    return entries.map(([, keyword]) => keyword);
+}
+
+/**
+ * Parse a "x,y,width,height" rectangle from a metadata value
+ */
+function parseRect(value: string | undefined): NoteRect | null {
+    if (!value) return null;
+    const [x, y, width, height] = value.split(',').map(part => parseInt(part, 10));
+    if ([x, y, width, height].some(n => n === undefined || isNaN(n))) {
+        return null;
+    }
+    return { x, y, width, height };
+}
+
+/**
+ * Parse headings from the footer's TITLE_* entries.
+ *
+ * Headings are stored as bitmaps, so their text comes from the recognized words that
+ * fall inside the heading rectangle. Without recognition a generic label is used.
+ */
+function parseHeadings(reader: BinaryReader, footerMap: Map<string, string>, pages: Page[]): NoteHeading[] {
+    const entries: Array<[string, NoteHeading]> = [];
+
+    footerMap.forEach((value, key) => {
+        if (!key.startsWith('TITLE_')) return;
+
+        const titleMap = parseMetadataBlock(reader, parseInt(value, 10));
+        const pageNumber = parsePageFromKey(key, 'TITLE_');
+        if (isNaN(pageNumber) || pageNumber < 1 || pageNumber > pages.length) return;
+
+        const rect = parseRect(titleMap.get('TITLERECT') || titleMap.get('TITLERECTORI'));
+        const words = pages[pageNumber - 1].recognition?.words ?? [];
+        const title = rect
+            ? words
+                .filter(word => {
+                    const centerX = word.x + word.width / 2;
+                    const centerY = word.y + word.height / 2;
+                    return centerX >= rect.x && centerX <= rect.x + rect.width &&
+                        centerY >= rect.y && centerY <= rect.y + rect.height;
+                })
+                .map(word => word.text)
+                .join(' ')
+            : '';
+
+        entries.push([key, {
+            title: title || `Heading on page ${pageNumber}`,
+            pageNumber,
+            y: rect?.y ?? 0,
+        }]);
+    });
+
+    // Keys encode page and vertical position, so sorting them gives reading order
+    entries.sort((a, b) => a[0].localeCompare(b[0]));
+    return entries.map(([, heading]) => heading);
+}
+
+/**
+ * Decode a base64 metadata value (LINKFILE stores paths and URLs this way)
+ */
+function decodeBase64Value(value: string): string {
+    try {
+        const binary = atob(value);
+        return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Convert an absolute device storage path to the path used by Browse & Access
+ * (e.g. "/storage/emulated/0/Note/Work/Plan.note" -> "/Note/Work/Plan.note")
+ */
+function toDevicePath(storagePath: string): string {
+    const noteIndex = storagePath.indexOf('/Note/');
+    return noteIndex >= 0 ? storagePath.slice(noteIndex) : storagePath;
+}
+
+/**
+ * Parse outbound links from the footer's LINKO_* entries
+ */
+function parseLinks(reader: BinaryReader, footerMap: Map<string, string>, pages: Page[]): NoteLink[] {
+    const entries: Array<[string, NoteLink]> = [];
+
+    footerMap.forEach((value, key) => {
+        if (!key.startsWith('LINKO_')) return;
+
+        const linkMap = parseMetadataBlock(reader, parseInt(value, 10));
+        const pageNumber = parsePageFromKey(key, 'LINKO_');
+        const rect = parseRect(linkMap.get('LINKRECT'));
+        if (isNaN(pageNumber) || !rect) return;
+
+        const linkType = parseInt(linkMap.get('LINKTYPE') || '', 10);
+        const target = decodeBase64Value(linkMap.get('LINKFILE') || '');
+
+        if (linkType === LINK_TYPE_PAGE) {
+            // Links within the same note reference the target page by its PAGEID
+            const targetIndex = pages.findIndex(page => page.pageId && page.pageId === linkMap.get('PAGEID'));
+            if (targetIndex === -1) return;
+            entries.push([key, { type: 'page', pageNumber, rect, targetPage: targetIndex + 1 }]);
+        } else if (linkType === LINK_TYPE_NOTE && target.endsWith('.note')) {
+            entries.push([key, { type: 'note', pageNumber, rect, targetPath: toDevicePath(target) }]);
+        } else if (linkType === LINK_TYPE_WEB && target) {
+            entries.push([key, { type: 'web', pageNumber, rect, url: target }]);
+        }
+    });
+
+    // Keys encode page and position, so sorting them gives reading order
+    entries.sort((a, b) => a[0].localeCompare(b[0]));
+    return entries.map(([, link]) => link);
+}
+
 /**
  * Get the file signature
  */
@@ -220,6 +534,7 @@ function parseNotebook(reader: BinaryReader): Notebook {
 
     // Detect dimensions
     const [width, height] = detectDeviceDimensions(reader, footerMap);
+    const dpi = width === A5X2_WIDTH ? A5X2_DPI : A5X_DPI;
 
     // Get page addresses, sorted by page number
     const pageEntries: [number, number][] = [];
@@ -258,10 +573,154 @@ function parseNotebook(reader: BinaryReader): Notebook {
             }
         }
 
-        pages.push({ addr, layers });
+        // Recognized handwriting (only present when real-time recognition is enabled)
+        const recognAddr = parseInt(pageMap.get('RECOGNTEXT') || '0', 10);
+        const recognData = readDataBlock(reader, recognAddr);
+        const recognition = recognData ? decodeRecognText(recognData, dpi) : null;
+
+        pages.push({
+            addr,
+            pageId: pageMap.get('PAGEID') || '',
+            layers,
+            recognition,
+            totalPathAddr: parseInt(pageMap.get('TOTALPATH') || '0', 10),
+        });
     }
 
-    return { signature, pages, width, height };
+    const keywords = parseKeywords(reader, footerMap);
+    const headings = parseHeadings(reader, footerMap, pages);
+    const links = parseLinks(reader, footerMap, pages);
+
+    return { signature, pages, width, height, dpi, keywords, headings, links };
+}
+
+/**
+ * Decode a TOTALPATH block into strokes.
+ *
+ * Ratta publishes no specification of TOTALPATH. This layout is inferred, not
+ * taken from one, and has not been checked against a reference decoder:
+ *   u32 strokeCount
+ *   per stroke:
+ *     u32 strokeSize                       bytes that follow for this stroke
+ *     u32 penType, u32 color, u32 thickness (1/100 mm)
+ *     u32 pointCount, pointCount x (u32 y, u32 x) in digitizer units
+ *     u32 pressureCount, pressureCount x u16 pressure
+ *     (any remaining bytes up to strokeSize are ignored)
+ *
+ * Sizes and counts have to add up, and pen types and colors must be ones whose
+ * meaning is known (PEN_TYPES, PEN_GRAY_LEVELS); colors are assumed to be stored
+ * as gray levels. Anything else returns null, so callers fall back to the page
+ * bitmaps rather than draw strokes in guessed pens or colors.
+ */
+function decodeTotalPath(data: Uint8Array, dpi: number, pageHeight: number): NoteStroke[] | null {
+    const unitsPerPixel = EMR_PAGE_HEIGHT / pageHeight;
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const u32 = (pos: number): number => view.getUint32(pos, true);
+
+    if (data.length < 4) return null;
+    const strokeCount = u32(0);
+    const strokes: NoteStroke[] = [];
+    let pos = 4;
+
+    for (let i = 0; i < strokeCount; i++) {
+        if (pos + 4 > data.length) return null;
+        const strokeSize = u32(pos);
+        const strokeStart = pos + 4;
+        const strokeEnd = strokeStart + strokeSize;
+        if (strokeSize < 20 || strokeEnd > data.length) return null;
+
+        const pen = PEN_TYPES[u32(strokeStart)];
+        const color = u32(strokeStart + 4);
+        if (!pen || !PEN_GRAY_LEVELS.includes(color)) return null;
+
+        const thickness = u32(strokeStart + 8);
+        const pointCount = u32(strokeStart + 12);
+
+        const pointsStart = strokeStart + 16;
+        const pressureCountPos = pointsStart + pointCount * 8;
+        if (pressureCountPos + 4 > strokeEnd) return null;
+
+        const pressureCount = u32(pressureCountPos);
+        if (pressureCountPos + 4 + pressureCount * 2 > strokeEnd) return null;
+
+        const points: StrokePoint[] = [];
+        for (let p = 0; p < pointCount; p++) {
+            const pressure = p < pressureCount
+                ? view.getUint16(pressureCountPos + 4 + p * 2, true) / MAX_PRESSURE
+                : 1;
+            points.push({
+                x: u32(pointsStart + p * 8 + 4) / unitsPerPixel,
+                y: u32(pointsStart + p * 8) / unitsPerPixel,
+                pressure: Math.min(1, pressure),
+            });
+        }
+
+        strokes.push({
+            pen,
+            color,
+            thickness: Math.max(1, (thickness / 100) * dpi / MM_PER_INCH),
+            points,
+        });
+        pos = strokeEnd;
+    }
+
+    return strokes;
+}
+
+/**
+ * Render strokes as a standalone SVG document.
+ * Pressure-sensitive pens are split into runs of similar pressure, each drawn as
+ * one polyline, which keeps files small while preserving line weight variation.
+ */
+function buildSVG(strokes: NoteStroke[], width: number, height: number): string {
+    const lines: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`,
+        `<rect width="${width}" height="${height}" fill="#fff"/>`,
+        '<g fill="none" stroke-linecap="round" stroke-linejoin="round">',
+    ];
+
+    const formatPoint = (point: StrokePoint): string => `${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+
+    for (const stroke of strokes) {
+        if (stroke.points.length === 0) continue;
+
+        const gray = stroke.color.toString(16).padStart(2, '0');
+        const color = `#${gray}${gray}${gray}`;
+        const opacity = stroke.pen === 'marker' ? ' stroke-opacity="0.4"' : '';
+        const usesPressure = stroke.pen === 'ink' || stroke.pen === 'calligraphy';
+
+        // Quantize pressure into a few widths; constant-width pens use a single run
+        const widthAt = (point: StrokePoint): number => usesPressure
+            ? Math.round(stroke.thickness * (0.4 + 0.6 * point.pressure) * 4) / 4
+            : stroke.thickness;
+
+        let runWidth = widthAt(stroke.points[0]);
+        let run: string[] = [formatPoint(stroke.points[0])];
+
+        const flush = (): void => {
+            // A single point still needs two coordinates to draw a dot
+            const points = run.length === 1 ? [run[0], run[0]] : run;
+            lines.push(`<polyline points="${points.join(' ')}" stroke="${color}" stroke-width="${runWidth}"${opacity}/>`);
+        };
+
+        for (let i = 1; i < stroke.points.length; i++) {
+            const point = stroke.points[i];
+            const pointWidth = widthAt(point);
+            run.push(formatPoint(point));
+            if (pointWidth !== runWidth) {
+                flush();
+                // Start the next run at the shared point so segments connect
+                run = [formatPoint(point)];
+                runWidth = pointWidth;
+            }
+        }
+        if (run.length > 1 || stroke.points.length === 1) {
+            flush();
+        }
+    }
+
+    lines.push('</g>', '</svg>');
+    return lines.join('\n');
 }
 
 /**
@@ -387,6 +846,124 @@ async function decodePNG(pngData: Uint8Array, width: number, height: number): Pr
     }
 }
 
+// CRC-32 lookup table for PNG chunk checksums
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode RGB pixel data as a PNG image (8-bit truecolor, no filtering)
+ */
+function encodePNG(rgb: Uint8Array, width: number, height: number): Uint8Array {
+    // Each scanline is prefixed with its filter type (0 = none)
+    const stride = width * 3;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (stride + 1)] = 0;
+        raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8;  // Bit depth
+    header[9] = 2;  // Color type: truecolor
+
+    const chunks = [
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', pako.deflate(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ];
+
+    const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    const result = new Uint8Array(signature.length + chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    result.set(signature, 0);
+    let offset = signature.length;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC over type + data
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/**
+ * Fingerprint a page by its layer bitmaps and pen strokes, to tell which pages
+ * changed between two versions of a note
+ */
+async function hashPage(reader: BinaryReader, page: Page): Promise<string> {
+    const hashBlock = async (address: number): Promise<string> => {
+        const data = readDataBlock(reader, address);
+        return data ? sha256(data.slice().buffer) : '-';
+    };
+
+    const parts: string[] = [];
+    for (const layer of page.layers) {
+        parts.push(`${layer.key}:${layer.protocol}:${await hashBlock(layer.bitmapAddress)}`);
+    }
+    parts.push(`TOTALPATH:${await hashBlock(page.totalPathAddr)}`);
+
+    return sha256(new TextEncoder().encode(parts.join('|')).buffer);
+}
+
+// Compressed page images by page hash and size, oldest first. Used when the
+// caller gives no page cache; it starts empty each time the plugin loads.
+const pageImageCache = new Map<string, Uint8Array>();
+let pageImageCacheBytes = 0;
+
+const memoryPageCache: PageImageCache = {
+    get: (key) => Promise.resolve(pageImageCache.get(key) ?? null),
+    set: (key, image) => Promise.resolve(cachePageImage(key, image)),
+};
+
+/**
+ * Keep a compressed page image for reuse, evicting the oldest entries beyond the size limit
+ */
+function cachePageImage(key: string, compressed: Uint8Array): void {
+    if (pageImageCache.has(key) || compressed.length > PAGE_CACHE_MAX_BYTES) return;
+
+    pageImageCache.set(key, compressed);
+    pageImageCacheBytes += compressed.length;
+
+    for (const [oldKey, oldImage] of Array.from(pageImageCache.entries())) {
+        if (pageImageCacheBytes <= PAGE_CACHE_MAX_BYTES) break;
+        pageImageCache.delete(oldKey);
+        pageImageCacheBytes -= oldImage.length;
+    }
+}
+
 /**
  * Render a page to RGBA pixel data
  */
@@ -492,13 +1069,74 @@ function rgbaToRgb(rgba: Uint8Array, width: number, height: number): Uint8Array
 }
 
 /**
- * Build a PDF from page images
+ * Encode a string as a PDF text string (UTF-16BE hex with byte order mark)
+ */
+function pdfTextString(str: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < str.length; i++) {
+        hex += str.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+/**
+ * Encode a string as a PDF literal string, escaping delimiters
+ */
+function pdfLiteralString(str: string): string {
+    return `(${str.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+/**
+ * Compute the relative path between two slash-separated paths (POSIX style)
+ */
+function relativePath(fromDir: string, toPath: string): string {
+    const fromParts = fromDir.split('/').filter(Boolean);
+    const toParts = toPath.split('/').filter(Boolean);
+
+    let common = 0;
+    while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) {
+        common++;
+    }
+
+    const ups = fromParts.slice(common).map(() => '..');
+    return [...ups, ...toParts.slice(common)].join('/');
+}
+
+/**
+ * Build the action/destination part of a link annotation
+ */
+function buildLinkAction(link: NoteLink, pageObjIds: number[], extras: PdfExtras): string | null {
+    switch (link.type) {
+        case 'page':
+            if (!link.targetPage || link.targetPage > pageObjIds.length) return null;
+            return `/Dest [${pageObjIds[link.targetPage - 1]} 0 R /Fit]`;
+
+        case 'web':
+            return `/A << /S /URI /URI ${pdfLiteralString(link.url ?? '')} >>`;
+
+        case 'note': {
+            // Only notes exported as PDFs can be opened; other links would point nowhere
+            const targetPdf = link.targetPath && extras.resolveNotePdf?.(link.targetPath);
+            if (!targetPdf || !extras.pdfPath) return null;
+            const target = relativePath(extras.pdfPath.slice(0, extras.pdfPath.lastIndexOf('/')), targetPdf);
+            const targetPage = (link.targetPage ?? 1) - 1;
+            return `/A << /S /GoToR /F ${pdfLiteralString(target)} /D [${targetPage} /Fit] >>`;
+        }
+    }
+}
+
+/**
+ * Build a PDF from page images (deflate-compressed RGB pixels, one per page)
  * 
  * Converts pixel dimensions to PDF points (72 points = 1 inch)
  * Supernote screens are approximately 226 DPI, so we scale accordingly
  * to produce a readable PDF at standard viewing sizes.
+ *
+ * Headings become a flat document outline (bookmarks) pointing at their page,
+ * links become clickable /Link annotations over their original area, and
+ * recognized words become an invisible text layer so the PDF is searchable.
  */
-function buildPDF(pageImages: Uint8Array[], width: number, height: number): Uint8Array {
+function buildPDF(pageImages: Uint8Array[], width: number, height: number, extras: PdfExtras = {}): Uint8Array {
     const chunks: Uint8Array[] = [];
     const xrefOffsets: number[] = [];
     let byteOffset = 0;
@@ -521,9 +1159,44 @@ function buildPDF(pageImages: Uint8Array[], width: number, height: number): Uint
     // PDF Header
     write('%PDF-1.7\n%\xE2\xE3\xCF\xD3\n');
 
+    // Outline objects follow the page objects: one root plus one item per heading
+    const outline = (extras.headings ?? []).filter(h => h.pageNumber >= 1 && h.pageNumber <= pageImages.length);
+    const outlineRootId = (pageImages.length * 3) + 3;
+
+    // Link annotations follow the outline; assign object IDs up front so pages can reference them
+    const pageObjIds = pageImages.map((_, i) => (i * 3) + 3);
+    const annotations: Array<{ id: number; pageIndex: number; body: string }> = [];
+    let nextAnnotId = outlineRootId + (outline.length > 0 ? outline.length + 1 : 0);
+
+    for (const link of extras.links ?? []) {
+        if (link.pageNumber < 1 || link.pageNumber > pageImages.length) continue;
+
+        const action = buildLinkAction(link, pageObjIds, extras);
+        if (!action) continue;
+
+        const x1 = Math.round(link.rect.x * 72 / DPI);
+        const y2 = Math.round(pdfHeight - link.rect.y * 72 / DPI);
+        const x2 = Math.round((link.rect.x + link.rect.width) * 72 / DPI);
+        const y1 = Math.round(pdfHeight - (link.rect.y + link.rect.height) * 72 / DPI);
+
+        annotations.push({
+            id: nextAnnotId++,
+            pageIndex: link.pageNumber - 1,
+            body: `<< /Type /Annot /Subtype /Link /Rect [${x1} ${y1} ${x2} ${y2}] /Border [0 0 0] ${action} >>`,
+        });
+    }
+
+    // The shared text layer font objects come last
+    const pageWords = pageImages.map((_, i) => extras.words?.[i] ?? []);
+    const fontObjId = pageWords.some(words => words.length > 0) ? nextAnnotId : null;
+
     // Object 1: Catalog
     xrefOffsets.push(byteOffset);
-    write('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    if (outline.length > 0) {
+        write(`1 0 obj\n<< /Type /Catalog /Pages 2 0 R /Outlines ${outlineRootId} 0 R /PageMode /UseOutlines >>\nendobj\n`);
+    } else {
+        write('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    }
 
     // Object 2: Pages
     xrefOffsets.push(byteOffset);
@@ -536,15 +1209,22 @@ function buildPDF(pageImages: Uint8Array[], width: number, height: number): Uint
         const contentsObjId = (i * 3) + 4;
         const imageObjId = (i * 3) + 5;
 
-        // Compress image data
-        const compressedPixels = pako.deflate(pageImages[i]);
+        const compressedPixels = pageImages[i];
+
+        // Link annotations on this page (if any)
+        const pageAnnotRefs = annotations.filter(a => a.pageIndex === i).map(a => `${a.id} 0 R`);
+        const annots = pageAnnotRefs.length > 0 ? `\n   /Annots [ ${pageAnnotRefs.join(' ')} ]` : '';
+
+        // Invisible text layer (if the page has recognized words)
+        const textOps = fontObjId !== null ? buildTextLayerOps(pageWords[i], 72 / DPI, pdfHeight, 'F1') : '';
+        const fonts = textOps ? ` /Font << /F1 ${fontObjId} 0 R >>` : '';
 
         // Page object with correct dimensions
         xrefOffsets.push(byteOffset);
-        write(`${pageObjId} 0 obj\n<< /Type /Page\n   /Parent 2 0 R\n   /MediaBox [0 0 ${pdfWidth} ${pdfHeight}]\n   /Contents ${contentsObjId} 0 R\n   /Resources << /XObject << /Im1 ${imageObjId} 0 R >> >>\n>>\nendobj\n`);
+        write(`${pageObjId} 0 obj\n<< /Type /Page\n   /Parent 2 0 R\n   /MediaBox [0 0 ${pdfWidth} ${pdfHeight}]\n   /Contents ${contentsObjId} 0 R\n   /Resources << /XObject << /Im1 ${imageObjId} 0 R >>${fonts} >>${annots}\n>>\nendobj\n`);
 
-        // Contents object - transformation matrix scales image to fill page
-        const contents = `q\n${pdfWidth} 0 0 ${pdfHeight} 0 0 cm\n/Im1 Do\nQ\n`;
+        // Contents object - transformation matrix scales image to fill page, then the text layer
+        const contents = `q\n${pdfWidth} 0 0 ${pdfHeight} 0 0 cm\n/Im1 Do\nQ\n${textOps ? `${textOps}\n` : ''}`;
         xrefOffsets.push(byteOffset);
         write(`${contentsObjId} 0 obj\n<< /Length ${contents.length} >>\nstream\n${contents}\nendstream\nendobj\n`);
 
@@ -555,6 +1235,43 @@ function buildPDF(pageImages: Uint8Array[], width: number, height: number): Uint
         write('\nendstream\nendobj\n');
     }
 
+    // Document outline
+    if (outline.length > 0) {
+        const firstItemId = outlineRootId + 1;
+        const lastItemId = outlineRootId + outline.length;
+
+        xrefOffsets.push(byteOffset);
+        write(`${outlineRootId} 0 obj\n<< /Type /Outlines /First ${firstItemId} 0 R /Last ${lastItemId} 0 R /Count ${outline.length} >>\nendobj\n`);
+
+        outline.forEach((heading, index) => {
+            const itemId = firstItemId + index;
+            const pageObjId = ((heading.pageNumber - 1) * 3) + 3;
+            const top = Math.round(pdfHeight - heading.y * 72 / DPI);
+
+            const siblings = [
+                index > 0 ? `/Prev ${itemId - 1} 0 R` : '',
+                index < outline.length - 1 ? `/Next ${itemId + 1} 0 R` : '',
+            ].filter(Boolean).join(' ');
+
+            xrefOffsets.push(byteOffset);
+            write(`${itemId} 0 obj\n<< /Title ${pdfTextString(heading.title)} /Parent ${outlineRootId} 0 R ${siblings} /Dest [${pageObjId} 0 R /XYZ 0 ${top} null] >>\nendobj\n`);
+        });
+    }
+
+    // Link annotations
+    for (const annotation of annotations) {
+        xrefOffsets.push(byteOffset);
+        write(`${annotation.id} 0 obj\n${annotation.body}\nendobj\n`);
+    }
+
+    // Text layer font
+    if (fontObjId !== null) {
+        buildTextLayerFont(fontObjId).forEach((body, i) => {
+            xrefOffsets.push(byteOffset);
+            write(`${fontObjId + i} 0 obj\n${body}\nendobj\n`);
+        });
+    }
+
     // Cross-reference table
     const xrefStart = byteOffset;
     write('xref\n');
@@ -586,9 +1303,10 @@ function buildPDF(pageImages: Uint8Array[], width: number, height: number): Uint
 /**
  * Convert a .note file to PDF
  * @param noteData Raw .note file data
+ * @param options Optional settings (e.g. where the PDFs of linked notes are, for inter-note links)
  * @returns PDF file data as ArrayBuffer
  */
-export async function convertNoteToPdf(noteData: ArrayBuffer): Promise<ArrayBuffer> {
+export async function convertNoteToPdf(noteData: ArrayBuffer, options: PdfBuildOptions = {}): Promise<ArrayBuffer> {
     // Diagnostic logging
     console.debug(`[note-parser] Converting .note file: ${noteData.byteLength} bytes`);
 
@@ -600,26 +1318,55 @@ export async function convertNoteToPdf(noteData: ArrayBuffer): Promise<ArrayBuff
     const notebook = parseNotebook(reader);
     console.debug(`[note-parser] Parsed notebook: ${notebook.pages.length} pages, ${notebook.width}x${notebook.height}`);
 
+    const pageCache = options.pageCache ?? memoryPageCache;
     const pageImages: Uint8Array[] = [];
+    let reusedCount = 0;
 
     for (let i = 0; i < notebook.pages.length; i++) {
         const page = notebook.pages[i];
         try {
+            // Pages unchanged since an earlier conversion reuse their compressed image
+            const cacheKey = `${await hashPage(reader, page)}:${notebook.width}x${notebook.height}`;
+            const cached = await pageCache.get(cacheKey);
+            if (cached) {
+                pageImages.push(cached);
+                reusedCount++;
+                continue;
+            }
+
             console.debug(`[note-parser] Rendering page ${i + 1}/${notebook.pages.length}, layers: ${page.layers.map(l => l.protocol).join(', ')}`);
             const rgba = await renderPage(reader, page, notebook.width, notebook.height);
-            const rgb = rgbaToRgb(rgba, notebook.width, notebook.height);
-            pageImages.push(rgb);
+            const compressed = pako.deflate(rgbaToRgb(rgba, notebook.width, notebook.height));
+            await pageCache.set(cacheKey, compressed);
+            pageImages.push(compressed);
         } catch (err) {
             console.error(`[note-parser] Failed to render page ${i + 1}:`, err);
             throw new Error(`Failed to render page ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
         }
     }
 
-    const pdfBytes = buildPDF(pageImages, notebook.width, notebook.height);
-    console.debug(`[note-parser] Generated PDF: ${pdfBytes.length} bytes`);
+    const pdfBytes = buildPDF(pageImages, notebook.width, notebook.height, {
+        headings: notebook.headings,
+        links: notebook.links,
+        pdfPath: options.pdfPath,
+        resolveNotePdf: options.resolveNotePdf,
+        words: notebook.pages.map(page => page.recognition?.words ?? []),
+    });
+    console.debug(`[note-parser] Generated PDF: ${pdfBytes.length} bytes (${reusedCount} unchanged page(s) reused)`);
     return pdfBytes.buffer;
 }
 
+/**
+ * Read the persistent FILE_ID from the header of a .note file.
+ * Works on a partial download, since the header sits at the start of the file.
+ */
+export function readFileId(headerData: ArrayBuffer): string | null {
+    const bytes = new Uint8Array(headerData, 0, Math.min(headerData.byteLength, HEADER_SCAN_LENGTH));
+    const text = String.fromCharCode(...Array.from(bytes));
+    const match = /<FILE_ID:([^>]+)>/.exec(text);
+    return match ? match[1] : null;
+}
+
 /**
  * Get information about a .note file without full conversion
  */
@@ -642,3 +1389,178 @@ export function getNoteInfo(noteData: ArrayBuffer): {
         height: notebook.height,
     };
 }
+
+/**
+ * Extract structured content (recognized text, etc.) from a .note file without rendering it
+ */
+export function extractNoteContent(noteData: ArrayBuffer): NoteContent {
+    const reader = new BinaryReader(noteData);
+
+    // Validate file before parsing
+    validateNoteFile(reader);
+
+    const notebook = parseNotebook(reader);
+    return {
+        pageCount: notebook.pages.length,
+        width: notebook.width,
+        height: notebook.height,
+        pages: notebook.pages.map((page, index) => ({
+            pageNumber: index + 1,
+            text: page.recognition?.text,
+            words: page.recognition?.words ?? [],
+        })),
+        keywords: notebook.keywords,
+        headings: notebook.headings,
+        links: notebook.links,
+    };
+}
+
+/**
+ * Decode the raw pen strokes of every page
+ * @returns One entry per page; null for pages without (decodable) stroke data
+ */
+export function extractStrokes(noteData: ArrayBuffer): Array<NoteStroke[] | null> {
+    const reader = new BinaryReader(noteData);
+
+    // Validate file before parsing
+    validateNoteFile(reader);
+
+    const notebook = parseNotebook(reader);
+    return notebook.pages.map((page, index) => {
+        const data = readDataBlock(reader, page.totalPathAddr);
+        if (!data) return null;
+
+        const strokes = decodeTotalPath(data, notebook.dpi, notebook.height);
+        if (!strokes) {
+            console.warn(`[note-parser] Unrecognized stroke data on page ${index + 1}`);
+        }
+        return strokes;
+    });
+}
+
+/**
+ * Fingerprint every page by its layer bitmaps and pen strokes
+ * @returns One hash per page; equal hashes mean the page looks the same
+ */
+export async function getPageHashes(noteData: ArrayBuffer): Promise<string[]> {
+    const reader = new BinaryReader(noteData);
+
+    // Validate file before parsing
+    validateNoteFile(reader);
+
+    const notebook = parseNotebook(reader);
+    const hashes: string[] = [];
+    for (const page of notebook.pages) {
+        hashes.push(await hashPage(reader, page));
+    }
+    return hashes;
+}
+
+/**
+ * Export pages as resolution-independent SVGs built from the pen strokes
+ * @param pageNumbers 1-based pages to export (all pages when omitted)
+ * @returns One entry per page; null for pages not exported or without (decodable) stroke data
+ */
+export function convertNoteToSvgs(noteData: ArrayBuffer, pageNumbers?: number[]): Array<string | null> {
+    const { width, height } = getNoteInfo(noteData);
+    return extractStrokes(noteData).map((strokes, index) => {
+        if (!strokes || (pageNumbers && !pageNumbers.includes(index + 1))) return null;
+        return buildSVG(strokes, width, height);
+    });
+}
+
+/**
+ * Render pages to PNG images at device resolution
+ * @param pageNumbers 1-based pages to render (all pages when omitted)
+ * @returns PNG file data, one entry per page; null for pages not rendered
+ */
+export async function convertNoteToPngs(noteData: ArrayBuffer, pageNumbers?: number[]): Promise<Array<Uint8Array | null>> {
+    const reader = new BinaryReader(noteData);
+
+    // Validate file before parsing
+    validateNoteFile(reader);
+
+    const notebook = parseNotebook(reader);
+    const images: Array<Uint8Array | null> = [];
+
+    for (let i = 0; i < notebook.pages.length; i++) {
+        if (pageNumbers && !pageNumbers.includes(i + 1)) {
+            images.push(null);
+            continue;
+        }
+
+        try {
+            const rgba = await renderPage(reader, notebook.pages[i], notebook.width, notebook.height);
+            images.push(encodePNG(rgbaToRgb(rgba, notebook.width, notebook.height), notebook.width, notebook.height));
+        } catch (err) {
+            throw new Error(`Failed to render page ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    return images;
+}
+
+/**
+ * Downscale RGBA pixels by an integer factor (box filter), producing RGB
+ */
+function downscale(rgba: Uint8Array, width: number, height: number, factor: number): { rgb: Uint8Array; width: number; height: number } {
+    const outWidth = Math.floor(width / factor);
+    const outHeight = Math.floor(height / factor);
+    const rgb = new Uint8Array(outWidth * outHeight * 3);
+    const area = factor * factor;
+
+    for (let y = 0; y < outHeight; y++) {
+        for (let x = 0; x < outWidth; x++) {
+            let r = 0, g = 0, b = 0;
+            for (let dy = 0; dy < factor; dy++) {
+                let src = ((y * factor + dy) * width + x * factor) * 4;
+                for (let dx = 0; dx < factor; dx++) {
+                    r += rgba[src];
+                    g += rgba[src + 1];
+                    b += rgba[src + 2];
+                    src += 4;
+                }
+            }
+            const dst = (y * outWidth + x) * 3;
+            rgb[dst] = Math.round(r / area);
+            rgb[dst + 1] = Math.round(g / area);
+            rgb[dst + 2] = Math.round(b / area);
+        }
+    }
+
+    return { rgb, width: outWidth, height: outHeight };
+}
+
+/**
+ * Generate a PNG thumbnail for a note. Uses the cover image cached by the
+ * device when the file has one, otherwise renders and downscales the first page.
+ */
+export async function generateThumbnail(noteData: ArrayBuffer): Promise<Uint8Array | null> {
+    const reader = new BinaryReader(noteData);
+
+    // Validate file before parsing
+    validateNoteFile(reader);
+
+    reader.seekEnd(-4);
+    const footerMap = parseMetadataBlock(reader, reader.readU32LE());
+
+    // Device-cached cover (COVER_1, COVER_2, ...); COVER_0 means none
+    const pngSignature = [0x89, 0x50, 0x4e, 0x47];
+    for (const [key, value] of Array.from(footerMap.entries())) {
+        if (!key.startsWith('COVER_')) continue;
+        const cover = readDataBlock(reader, parseInt(value, 10));
+        if (cover && pngSignature.every((byte, i) => cover[i] === byte)) {
+            return cover;
+        }
+    }
+
+    const notebook = parseNotebook(reader);
+    if (notebook.pages.length === 0) {
+        return null;
+    }
+
+    const rgba = await renderPage(reader, notebook.pages[0], notebook.width, notebook.height);
+    const factor = Math.max(1, Math.ceil(notebook.width / THUMBNAIL_WIDTH));
+    const thumbnail = downscale(rgba, notebook.width, notebook.height, factor);
+    return encodePNG(thumbnail.rgb, thumbnail.width, thumbnail.height);
+}
@@ -0,0 +1,615 @@
+/**
+ * Invisible text layer for Supernote PDFs.
+ *
+ * Recognized handwriting is written as text in render mode 3 (invisible) on top
+ * of the page image, so PDF viewers and search plugins can find handwritten words.
+ * The built-in converter writes the layer directly; PDFs produced by the
+ * supernote_pdf CLI get it appended as an incremental update.
+ */
+
+import * as pako from 'pako';
+import { NoteContent, RecognizedWord } from './types';
+
+// Objects making up the text layer font, see buildTextLayerFont
+export const TEXT_LAYER_FONT_OBJECTS = 4;
+
+// Glyph width (em fraction) of every character in the text layer font, used to stretch words over their box
+const GLYPH_WIDTH = 0.5;
+
+// Helvetica descent (em fraction), used to place the baseline inside the word box
+const FONT_DESCENT = 0.21;
+
+// Stands in for characters outside the Basic Multilingual Plane, which take two UTF-16 code units
+const REPLACEMENT_CHARACTER = 0xfffd;
+
+/**
+ * Objects of the text layer font, numbered from firstNum: a Type0 font with
+ * Identity-H encoding, so text is written as one 2-byte code per character,
+ * and a ToUnicode CMap mapping the codes back to Unicode, so any script can be
+ * searched. Invisible text never renders glyphs, so the font isn't embedded.
+ * @returns TEXT_LAYER_FONT_OBJECTS object bodies, the font to reference first
+ */
+export function buildTextLayerFont(firstNum: number): string[] {
+    const [cidFontNum, descriptorNum, toUnicodeNum] = [firstNum + 1, firstNum + 2, firstNum + 3];
+    const cmap = buildToUnicodeCMap();
+
+    return [
+        `<< /Type /Font /Subtype /Type0 /BaseFont /Helvetica /Encoding /Identity-H /DescendantFonts [${cidFontNum} 0 R] /ToUnicode ${toUnicodeNum} 0 R >>`,
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Helvetica /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptorNum} 0 R /DW ${GLYPH_WIDTH * 1000} /CIDToGIDMap /Identity >>`,
+        '<< /Type /FontDescriptor /FontName /Helvetica /Flags 32 /FontBBox [-166 -225 1000 931] /ItalicAngle 0 /Ascent 718 /Descent -207 /CapHeight 718 /StemV 88 >>',
+        `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`,
+    ];
+}
+
+/**
+ * CMap mapping each 2-byte code to the Basic Multilingual Plane character of
+ * the same number. Ranges may only vary in their last byte, so there is one per
+ * high byte, skipping the surrogates.
+ */
+function buildToUnicodeCMap(): string {
+    const ranges: string[] = [];
+    for (let high = 0; high <= 0xff; high++) {
+        if (high >= 0xd8 && high <= 0xdf) continue;
+        const prefix = high.toString(16).padStart(2, '0').toUpperCase();
+        ranges.push(`<${prefix}00> <${prefix}FF> <${prefix}00>`);
+    }
+
+    // At most 100 entries per block
+    const blocks: string[] = [];
+    for (let i = 0; i < ranges.length; i += 100) {
+        const block = ranges.slice(i, i + 100);
+        blocks.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+    }
+
+    return [
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange',
+        '<0000> <FFFF>',
+        'endcodespacerange',
+        ...blocks,
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end',
+    ].join('\n');
+}
+
+/**
+ * Encode text as a hex string of 2-byte codes for the text layer font
+ */
+function encodeText(text: string): string {
+    let hex = '';
+    for (const char of text) {
+        const code = char.codePointAt(0) ?? REPLACEMENT_CHARACTER;
+        hex += (code > 0xffff ? REPLACEMENT_CHARACTER : code).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+/**
+ * Build content stream operators that draw words invisibly over their position on the page
+ * @param words Recognized words in device pixels
+ * @param scale PDF points per device pixel
+ * @param pageHeight Page height in PDF points
+ * @param fontName Resource name of the text layer font (see buildTextLayerFont) on the page
+ */
+export function buildTextLayerOps(words: RecognizedWord[], scale: number, pageHeight: number, fontName: string): string {
+    const ops: string[] = [];
+
+    for (const word of words) {
+        const text = word.text.trim();
+        if (!text || word.width <= 0 || word.height <= 0) continue;
+
+        const fontSize = word.height * scale;
+        const x = word.x * scale;
+        const baseline = pageHeight - (word.y + word.height) * scale + fontSize * FONT_DESCENT;
+        const naturalWidth = Array.from(text).length * fontSize * GLYPH_WIDTH;
+        const horizontalScale = (word.width * scale / naturalWidth) * 100;
+
+        // The trailing space keeps words separate when viewers extract text
+        ops.push(`BT 3 Tr /${fontName} ${fontSize.toFixed(2)} Tf ${horizontalScale.toFixed(2)} Tz ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${encodeText(`${text} `)} Tj ET`);
+    }
+
+    return ops.join('\n');
+}
+
+// ============================================================================
+// Minimal PDF object model for incremental updates
+// ============================================================================
+
+type PdfValue =
+    | { kind: 'raw'; text: string }
+    | { kind: 'name'; name: string }
+    | { kind: 'ref'; num: number; gen: number }
+    | { kind: 'array'; items: PdfValue[] }
+    | { kind: 'dict'; entries: Map<string, PdfValue> };
+
+interface PdfObject {
+    num: number;
+    gen: number;
+    value: PdfValue;
+}
+
+interface PdfPage {
+    object: PdfObject;
+    mediaBox: number[];
+    resources?: PdfValue;
+}
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+/**
+ * Tokenizer/parser for PDF objects held in a binary (latin1) string
+ */
+class PdfLexer {
+    constructor(private src: string, public pos: number = 0) {}
+
+    skipWhitespace(): void {
+        while (this.pos < this.src.length) {
+            const char = this.src[this.pos];
+            if (WHITESPACE.test(char)) {
+                this.pos++;
+            } else if (char === '%') {
+                while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') {
+                    this.pos++;
+                }
+            } else {
+                break;
+            }
+        }
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.src.length && !WHITESPACE.test(this.src[this.pos]) && !DELIMITER.test(this.src[this.pos])) {
+            this.pos++;
+        }
+        return this.src.slice(start, this.pos);
+    }
+
+    peekKeyword(keyword: string): boolean {
+        this.skipWhitespace();
+        return this.src.startsWith(keyword, this.pos);
+    }
+
+    parseValue(): PdfValue {
+        this.skipWhitespace();
+        const char = this.src[this.pos];
+
+        if (char === '/') {
+            this.pos++;
+            return { kind: 'name', name: this.readRegular() };
+        }
+
+        if (char === '<' && this.src[this.pos + 1] === '<') {
+            this.pos += 2;
+            const entries = new Map<string, PdfValue>();
+            for (;;) {
+                this.skipWhitespace();
+                if (this.src.startsWith('>>', this.pos)) {
+                    this.pos += 2;
+                    return { kind: 'dict', entries };
+                }
+                const key = this.parseValue();
+                if (key.kind !== 'name') throw new Error(`Invalid dictionary key at ${this.pos}`);
+                entries.set(key.name, this.parseValue());
+            }
+        }
+
+        if (char === '<') {
+            const end = this.src.indexOf('>', this.pos);
+            if (end === -1) throw new Error('Unterminated hex string');
+            const text = this.src.slice(this.pos, end + 1);
+            this.pos = end + 1;
+            return { kind: 'raw', text };
+        }
+
+        if (char === '[') {
+            this.pos++;
+            const items: PdfValue[] = [];
+            for (;;) {
+                this.skipWhitespace();
+                if (this.src[this.pos] === ']') {
+                    this.pos++;
+                    return { kind: 'array', items };
+                }
+                if (this.pos >= this.src.length) throw new Error('Unterminated array');
+                items.push(this.parseValue());
+            }
+        }
+
+        if (char === '(') {
+            const start = this.pos;
+            let depth = 0;
+            while (this.pos < this.src.length) {
+                const c = this.src[this.pos];
+                if (c === '\\') {
+                    this.pos += 2;
+                    continue;
+                }
+                if (c === '(') depth++;
+                if (c === ')') depth--;
+                this.pos++;
+                if (depth === 0) break;
+            }
+            return { kind: 'raw', text: this.src.slice(start, this.pos) };
+        }
+
+        const token = this.readRegular();
+        if (!token) throw new Error(`Unexpected character at ${this.pos}`);
+
+        // "num gen R" is an indirect reference
+        if (/^\d+$/.test(token)) {
+            const ref = /^\s+(\d+)\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/.exec(this.src.slice(this.pos, this.pos + 32));
+            if (ref) {
+                this.pos += ref[0].length;
+                return { kind: 'ref', num: parseInt(token, 10), gen: parseInt(ref[1], 10) };
+            }
+        }
+
+        return { kind: 'raw', text: token };
+    }
+}
+
+/**
+ * Serialize a parsed value back to PDF syntax
+ */
+function serialize(value: PdfValue): string {
+    switch (value.kind) {
+        case 'raw':
+            return value.text;
+        case 'name':
+            return `/${value.name}`;
+        case 'ref':
+            return `${value.num} ${value.gen} R`;
+        case 'array':
+            return `[${value.items.map(serialize).join(' ')}]`;
+        case 'dict': {
+            const parts: string[] = [];
+            value.entries.forEach((entry, key) => parts.push(`/${key} ${serialize(entry)}`));
+            return `<< ${parts.join(' ')} >>`;
+        }
+    }
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+    let result = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+    }
+    return result;
+}
+
+function numberValue(value: PdfValue | undefined): number | undefined {
+    return value?.kind === 'raw' && /^[-+]?[\d.]+$/.test(value.text) ? parseFloat(value.text) : undefined;
+}
+
+/**
+ * Read access to the objects of an existing PDF file
+ */
+class PdfDocument {
+    private src: string;
+    private objects = new Map<number, PdfObject>();
+
+    constructor(private bytes: Uint8Array) {
+        this.src = toBinaryString(bytes);
+        this.scanObjects();
+    }
+
+    /**
+     * Index every object in the file, skipping over stream data so binary
+     * content is never mistaken for object headers. Later definitions win,
+     * matching incremental update semantics.
+     */
+    private scanObjects(): void {
+        const header = /(\d+)\s+(\d+)\s+obj\b/g;
+        const objectStreams: Array<{ dict: Map<string, PdfValue>; data: Uint8Array }> = [];
+        let match: RegExpExecArray | null;
+
+        while ((match = header.exec(this.src)) !== null) {
+            const lexer = new PdfLexer(this.src, match.index + match[0].length);
+            let value: PdfValue;
+            try {
+                value = lexer.parseValue();
+            } catch {
+                continue;
+            }
+
+            const object: PdfObject = { num: parseInt(match[1], 10), gen: parseInt(match[2], 10), value };
+            this.objects.set(object.num, object);
+
+            if (value.kind === 'dict' && lexer.peekKeyword('stream')) {
+                const data = this.readStream(lexer.pos, value.entries);
+                if (!data) break;
+                header.lastIndex = data.end;
+
+                const type = value.entries.get('Type');
+                if (type?.kind === 'name' && type.name === 'ObjStm') {
+                    objectStreams.push({ dict: value.entries, data: data.bytes });
+                }
+            } else {
+                header.lastIndex = lexer.pos;
+            }
+        }
+
+        // Compressed objects (PDF 1.5 object streams); direct definitions take precedence
+        for (const stream of objectStreams) {
+            this.indexObjectStream(stream.dict, stream.data);
+        }
+    }
+
+    private readStream(pos: number, dict: Map<string, PdfValue>): { bytes: Uint8Array; end: number } | null {
+        let start = this.src.indexOf('stream', pos) + 'stream'.length;
+        if (this.src[start] === '\r') start++;
+        if (this.src[start] === '\n') start++;
+
+        const lengthValue = dict.get('Length');
+        let length = numberValue(lengthValue);
+        if (length === undefined && lengthValue?.kind === 'ref') {
+            length = numberValue(this.objects.get(lengthValue.num)?.value);
+        }
+        if (length === undefined || !this.src.startsWith('endstream', this.skipEol(start + length))) {
+            const end = this.src.indexOf('endstream', start);
+            if (end === -1) return null;
+            length = end - start;
+        }
+
+        return { bytes: this.bytes.subarray(start, start + length), end: start + length };
+    }
+
+    private skipEol(pos: number): number {
+        while (this.src[pos] === '\r' || this.src[pos] === '\n') pos++;
+        return pos;
+    }
+
+    private indexObjectStream(dict: Map<string, PdfValue>, data: Uint8Array): void {
+        const filter = dict.get('Filter');
+        const filterName = filter?.kind === 'array' ? filter.items[0] : filter;
+        let decoded = data;
+        if (filterName) {
+            if (filterName.kind !== 'name' || filterName.name !== 'FlateDecode') return;
+            try {
+                decoded = pako.inflate(data);
+            } catch {
+                return;
+            }
+        }
+
+        const count = numberValue(dict.get('N')) ?? 0;
+        const first = numberValue(dict.get('First')) ?? 0;
+        const text = toBinaryString(decoded);
+        const lexer = new PdfLexer(text);
+
+        const offsets: Array<[number, number]> = [];
+        for (let i = 0; i < count; i++) {
+            const num = numberValue(lexer.parseValue());
+            const offset = numberValue(lexer.parseValue());
+            if (num === undefined || offset === undefined) return;
+            offsets.push([num, offset]);
+        }
+
+        for (const [num, offset] of offsets) {
+            if (this.objects.has(num)) continue;
+            try {
+                const value = new PdfLexer(text, first + offset).parseValue();
+                this.objects.set(num, { num, gen: 0, value });
+            } catch {
+                // Skip unparseable objects
+            }
+        }
+    }
+
+    get length(): number {
+        return this.bytes.length;
+    }
+
+    get maxObjectNumber(): number {
+        let max = 0;
+        this.objects.forEach((_, num) => { max = Math.max(max, num); });
+        return max;
+    }
+
+    resolve(value: PdfValue | undefined): PdfValue | undefined {
+        if (value?.kind === 'ref') {
+            return this.objects.get(value.num)?.value;
+        }
+        return value;
+    }
+
+    /**
+     * Offset of the last cross-reference section, the trailer dictionary that goes
+     * with it, and whether the section is a cross-reference stream (PDF 1.5)
+     */
+    getTrailer(): { startxref: number; dict: Map<string, PdfValue>; xrefStream: boolean } | null {
+        const match = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(this.src.slice(-1024));
+        if (!match) return null;
+        const startxref = parseInt(match[1], 10);
+
+        if (this.src.startsWith('xref', startxref)) {
+            const trailerPos = this.src.indexOf('trailer', startxref);
+            if (trailerPos === -1) return null;
+            const dict = new PdfLexer(this.src, trailerPos + 'trailer'.length).parseValue();
+            return dict.kind === 'dict' ? { startxref, dict: dict.entries, xrefStream: false } : null;
+        }
+
+        // Cross-reference stream: the trailer entries live in the stream dictionary
+        const header = /\d+\s+\d+\s+obj\b/y;
+        header.lastIndex = startxref;
+        if (!header.exec(this.src)) return null;
+        const dict = new PdfLexer(this.src, header.lastIndex).parseValue();
+        return dict.kind === 'dict' ? { startxref, dict: dict.entries, xrefStream: true } : null;
+    }
+
+    /**
+     * Collect pages in document order, resolving inherited MediaBox and Resources
+     */
+    getPages(root: PdfValue | undefined): PdfPage[] {
+        const catalog = this.resolve(root);
+        if (catalog?.kind !== 'dict') return [];
+
+        const pages: PdfPage[] = [];
+        const visited = new Set<number>();
+
+        const walk = (ref: PdfValue | undefined, mediaBox?: number[], resources?: PdfValue): void => {
+            if (ref?.kind !== 'ref' || visited.has(ref.num)) return;
+            visited.add(ref.num);
+
+            const object = this.objects.get(ref.num);
+            if (object?.value.kind !== 'dict') return;
+            const entries = object.value.entries;
+
+            const box = this.resolve(entries.get('MediaBox'));
+            const ownBox = box?.kind === 'array' ? box.items.map(item => numberValue(item) ?? 0) : undefined;
+            const inheritedBox = ownBox ?? mediaBox;
+            const inheritedResources = entries.get('Resources') ?? resources;
+
+            const type = entries.get('Type');
+            if (type?.kind === 'name' && type.name === 'Pages') {
+                const kids = this.resolve(entries.get('Kids'));
+                if (kids?.kind === 'array') {
+                    kids.items.forEach(kid => walk(kid, inheritedBox, inheritedResources));
+                }
+            } else if (inheritedBox && inheritedBox.length === 4) {
+                pages.push({ object, mediaBox: inheritedBox, resources: inheritedResources });
+            }
+        };
+
+        walk(catalog.entries.get('Pages'));
+        return pages;
+    }
+}
+
+/**
+ * Add an invisible text layer to an existing PDF (e.g. one produced by the CLI)
+ * by appending an incremental update. The original bytes are left untouched.
+ * Notes without recognized text get the PDF back as is.
+ * @param pdfData PDF with one page per note page
+ * @param content Content extracted from the same .note file
+ * @throws If the PDF can't be understood or doesn't match the note
+ */
+export function addTextLayer(pdfData: ArrayBuffer, content: NoteContent): ArrayBuffer {
+    if (!content.pages.some(page => page.words.length > 0)) {
+        return pdfData;
+    }
+
+    const doc = new PdfDocument(new Uint8Array(pdfData));
+    const trailer = doc.getTrailer();
+    if (!trailer) {
+        throw new Error('Could not locate the PDF trailer');
+    }
+
+    const pages = doc.getPages(trailer.dict.get('Root'));
+    if (pages.length !== content.pages.length) {
+        throw new Error(`PDF has ${pages.length} pages but note has ${content.pages.length}`);
+    }
+
+    const chunks: string[] = [];
+    const xrefEntries: Array<[number, number, number]> = [];
+    let offset = doc.length;
+    let nextObjNum = Math.max(doc.maxObjectNumber + 1, numberValue(trailer.dict.get('Size')) ?? 0);
+
+    const writeObject = (num: number, gen: number, body: string): void => {
+        // Leading newline guarantees the update starts on its own line
+        const data = `\n${num} ${gen} obj\n${body}\nendobj\n`;
+        xrefEntries.push([num, gen, offset + 1]);
+        chunks.push(data);
+        offset += data.length;
+    };
+
+    const fontNum = nextObjNum;
+    buildTextLayerFont(fontNum).forEach((body, i) => writeObject(fontNum + i, 0, body));
+    nextObjNum += TEXT_LAYER_FONT_OBJECTS;
+
+    // Saves the graphics state before the original content so the text layer starts from a clean state
+    const saveStateNum = nextObjNum++;
+    writeObject(saveStateNum, 0, '<< /Length 2 >>\nstream\nq\n\nendstream');
+
+    pages.forEach((page, index) => {
+        const words = content.pages[index].words;
+        if (words.length === 0 || page.object.value.kind !== 'dict') return;
+
+        const [x0, y0, x1, y1] = page.mediaBox;
+        const scale = (x1 - x0) / content.width;
+        const pageEntries = new Map(page.object.value.entries);
+
+        // Merge the font into a private copy of the page resources
+        const resources = doc.resolve(page.resources);
+        const resourceEntries = resources?.kind === 'dict' ? new Map(resources.entries) : new Map<string, PdfValue>();
+        const fonts = doc.resolve(resourceEntries.get('Font'));
+        const fontEntries = fonts?.kind === 'dict' ? new Map(fonts.entries) : new Map<string, PdfValue>();
+        let fontName = 'SNText';
+        while (fontEntries.has(fontName)) fontName += 'X';
+        fontEntries.set(fontName, { kind: 'ref', num: fontNum, gen: 0 });
+        resourceEntries.set('Font', { kind: 'dict', entries: fontEntries });
+        pageEntries.set('Resources', { kind: 'dict', entries: resourceEntries });
+
+        const ops = buildTextLayerOps(words, scale, y1 - y0, fontName);
+        const stream = `Q\nq\n1 0 0 1 ${x0} ${y0} cm\n${ops}\nQ\n`;
+        const textNum = nextObjNum++;
+        writeObject(textNum, 0, `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+
+        const existing = pageEntries.get('Contents');
+        const existingItems = existing?.kind === 'array' ? existing.items : existing ? [existing] : [];
+        pageEntries.set('Contents', {
+            kind: 'array',
+            items: [{ kind: 'ref', num: saveStateNum, gen: 0 }, ...existingItems, { kind: 'ref', num: textNum, gen: 0 }],
+        });
+
+        writeObject(page.object.num, page.object.gen, serialize({ kind: 'dict', entries: pageEntries }));
+    });
+
+    // Cross-reference section for the update, chained to the original via /Prev,
+    // in the format of the original: readers may not follow a chain mixing both
+    const xrefNum = trailer.xrefStream ? nextObjNum++ : 0;
+    if (trailer.xrefStream) {
+        xrefEntries.push([xrefNum, 0, offset + 1]);
+    }
+    xrefEntries.sort((a, b) => a[0] - b[0]);
+
+    const trailerEntries = new Map<string, PdfValue>();
+    trailerEntries.set('Size', { kind: 'raw', text: String(nextObjNum) });
+    trailerEntries.set('Prev', { kind: 'raw', text: String(trailer.startxref) });
+    for (const key of ['Root', 'Info', 'ID']) {
+        const value = trailer.dict.get(key);
+        if (value) trailerEntries.set(key, value);
+    }
+
+    if (trailer.xrefStream) {
+        // Type 1 entries of 1 + 4 + 2 bytes, hex encoded so the update stays ASCII
+        const data = xrefEntries.map(([, gen, objOffset]) =>
+            `01${objOffset.toString(16).padStart(8, '0')}${gen.toString(16).padStart(4, '0')}`
+        ).join('') + '>';
+        const entries = new Map<string, PdfValue>([['Type', { kind: 'name', name: 'XRef' }], ...Array.from(trailerEntries)]);
+        entries.set('W', { kind: 'raw', text: '[1 4 2]' });
+        entries.set('Index', { kind: 'raw', text: `[${xrefEntries.map(([num]) => `${num} 1`).join(' ')}]` });
+        entries.set('Filter', { kind: 'name', name: 'ASCIIHexDecode' });
+        entries.set('Length', { kind: 'raw', text: String(data.length) });
+
+        const xrefStart = offset + 1;
+        const dict = serialize({ kind: 'dict', entries });
+        chunks.push(`\n${xrefNum} 0 obj\n${dict}\nstream\n${data}\nendstream\nendobj\nstartxref\n${xrefStart}\n%%EOF\n`);
+    } else {
+        const xrefStart = offset;
+        const xref = ['xref'];
+        for (const [num, gen, objOffset] of xrefEntries) {
+            xref.push(`${num} 1`, `${objOffset.toString().padStart(10, '0')} ${gen.toString().padStart(5, '0')} n `);
+        }
+        chunks.push(`${xref.join('\n')}\ntrailer\n${serialize({ kind: 'dict', entries: trailerEntries })}\nstartxref\n${xrefStart}\n%%EOF\n`);
+    }
+
+    // Everything appended is ASCII, so one byte per character
+    const update = chunks.join('');
+    const result = new Uint8Array(doc.length + update.length);
+    result.set(new Uint8Array(pdfData), 0);
+    for (let i = 0; i < update.length; i++) {
+        result[doc.length + i] = update.charCodeAt(i);
+    }
+    return result.buffer;
+}
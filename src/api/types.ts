@@ -9,6 +9,7 @@ export interface SupernoteFile {
     modifiedAt: string;     // ISO date string
     createdAt: string;      // ISO date string
     pageCount?: number;     // Number of pages (if available)
+    legacyId?: string;      // Path-hash ID used before FILE_ID identity, for migrating vault notes
 }
 
 /**
@@ -19,6 +20,116 @@ export interface SupernoteFileDetail extends SupernoteFile {
     thumbnail?: string;     // Base64 thumbnail image (if available)
 }
 
+/**
+ * A handwritten word recognized on a page, positioned in device pixels
+ */
+export interface RecognizedWord {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Content extracted from a single page of a .note file
+ */
+export interface NotePageContent {
+    pageNumber: number;         // 1-based page number
+    text?: string;              // Recognized handwriting (RECOGNTEXT), if recognition was enabled
+    words: RecognizedWord[];    // Individual recognized words with positions
+}
+
+/**
+ * A keyword the user lasso-marked on a page
+ */
+export interface NoteKeyword {
+    text: string;
+    pageNumber: number;         // 1-based page number
+}
+
+/**
+ * A heading (the device's "title" feature) marked on a page
+ */
+export interface NoteHeading {
+    title: string;              // Recognized heading text, or a generic label without recognition
+    pageNumber: number;         // 1-based page number
+    y: number;                  // Top of the heading on the page, in device pixels
+}
+
+/**
+ * Pen used for a stroke
+ */
+export type PenType = 'ink' | 'needle' | 'marker' | 'calligraphy';
+
+/**
+ * A sampled point of a pen stroke, in device pixels
+ */
+export interface StrokePoint {
+    x: number;
+    y: number;
+    pressure: number;           // Normalized pen pressure (0-1)
+}
+
+/**
+ * A raw pen stroke decoded from a page's TOTALPATH block
+ */
+export interface NoteStroke {
+    pen: PenType;
+    color: number;              // Gray level (0 = black, 255 = white)
+    thickness: number;          // Nominal line width in device pixels
+    points: StrokePoint[];
+}
+
+/**
+ * A page image written to the vault for embedding in markdown
+ */
+export interface PageImage {
+    pageNumber: number;         // 1-based
+    path: string;               // Vault path
+}
+
+/**
+ * A rectangle on a page, in device pixels
+ */
+export interface NoteRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Supported link kinds: another page of the same note, another note, or a web URL
+ */
+export type NoteLinkType = 'page' | 'note' | 'web';
+
+/**
+ * An outbound link the user created on a page (LINKO_* footer entries)
+ */
+export interface NoteLink {
+    type: NoteLinkType;
+    pageNumber: number;         // 1-based page the link sits on
+    rect: NoteRect;             // Clickable area on that page
+    targetPath?: string;        // Device path of the linked note (e.g. "/Note/Work/Plan.note")
+    targetPage?: number;        // 1-based target page, when it can be resolved
+    url?: string;               // Target of web links
+    resolvedPath?: string;      // Vault path of the linked note, filled in by the importer
+}
+
+/**
+ * Structured content extracted from a .note file (everything beyond the rendered pixels)
+ */
+export interface NoteContent {
+    pageCount: number;
+    width: number;              // Page width in device pixels
+    height: number;             // Page height in device pixels
+    pages: NotePageContent[];
+    keywords: NoteKeyword[];
+    headings: NoteHeading[];
+    links: NoteLink[];
+}
+
 /**
  * Represents a local file in the Obsidian vault that was synced from Supernote
  */
@@ -36,6 +147,9 @@ export interface LocalNoteFile {
 export interface ExportOptions {
     includeThumbnail: boolean;
     attachPdf: boolean;
+    includeTranscription: boolean;
+    includeVectorPages: boolean;
+    extraTags?: string[];       // Tags added besides the default and keyword tags
 }
 
 /**
@@ -76,6 +190,14 @@ export interface UpdateOptions {
     exportOptions: ExportOptions;
 }
 
+/**
+ * A line of a line diff
+ */
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
 /**
  * Preview of what will change during an update
  */
@@ -83,11 +205,14 @@ export interface UpdatePreview {
     hasChanges: boolean;
     frontmatterChanges: Array<{
         field: string;
-        oldValue: unknown;
-        newValue: unknown;
+        oldValue: unknown;      // undefined when the field is added
+        newValue: unknown;      // undefined when the field is removed
     }>;
     contentChanged: boolean;
+    bodyDiff?: DiffLine[];      // Line diff of the body (when it changes)
     customFieldsPreserved: string[];
+    overwritesLocalEdits?: boolean; // Edited in the vault since the last sync, and the update replaces those edits
+    changedPages?: number[];    // 1-based pages that differ from the last sync (unknown when absent)
 }
 
 /**
@@ -106,8 +231,39 @@ export interface SyncStatus {
     new: SupernoteFile[];
     updated: SupernoteFile[];
     synced: SupernoteFile[];
+    moved: SupernoteFile[];     // Renamed or moved on the device since the last sync
+    deleted: SupernoteFile[];   // Imported before, no longer on the device (details as last synced)
+}
+
+/**
+ * Vault files written for an imported note
+ */
+export interface NoteVaultPaths {
+    markdown?: string;
+    pdf?: string;
+    attachments?: string;       // Folder holding page images and the thumbnail
 }
 
+/**
+ * What the last sync recorded about a note
+ */
+export interface ManifestEntry {
+    devicePath: string;
+    size?: number;              // Device file size as last synced
+    modifiedAt?: string;        // Device modification date as last synced (ISO)
+    contentHash?: string;       // SHA-256 of the .note file as last synced
+    pageHashes?: string[];      // Fingerprint of each page as last synced
+    vaultPaths: NoteVaultPaths;
+    converterVersion?: string;  // PDF converter that produced the vault PDF
+    outputFingerprint?: string; // Hash of the settings that shaped the vault files
+    lastSync?: number;          // When the vault files were last written (ms)
+}
+
+/**
+ * Sync manifest, keyed by note ID
+ */
+export type SyncManifest = Record<string, ManifestEntry>;
+
 /**
  * Server connection status
  */
@@ -1,47 +1,107 @@
-import { Plugin, Notice } from 'obsidian';
-import { SupernoteCompanionSettings, DEFAULT_SETTINGS } from './settings';
+import { Plugin, Notice, TFile, Menu, WorkspaceLeaf } from 'obsidian';
+import { SupernoteCompanionSettings, DEFAULT_SETTINGS, TrashRule } from './settings';
 import { SupernoteAPIClient, MockSupernoteAPIClient } from './api/client';
-import { SupernoteFile, LocalNoteFile, UpdateOptions, ExportOptions, NoteUpdatePreview } from './api/types';
+import { SupernoteFile, LocalNoteFile, UpdateOptions, ExportOptions, NoteUpdatePreview, SyncStatus } from './api/types';
 import { SupernoteSettingTab } from './ui/settings-tab';
 import { SyncStatusModal } from './ui/sync-status-modal';
 import { ConfirmationModal } from './ui/confirmation-modal';
 import { UpdateConfigModal } from './ui/update-config-modal';
 import { UpdatePreviewModal } from './ui/update-preview-modal';
 import { TrashManagementModal } from './ui/trash-modal';
+import { ThumbnailSource } from './ui/thumbnails';
+import { SyncStatusBar } from './ui/status-bar';
+import { DeviceView, VIEW_TYPE_DEVICE } from './ui/device-view';
+import { ImportProgressModal } from './ui/progress-modal';
+import { FilterPreviewModal } from './ui/filter-preview-modal';
 import { scanLocalNotes, scanLocalPdfsByName } from './sync/matcher';
-import { calculateSyncStatus, filterNewNotes, filterExistingNotes, splitByModificationStatus, deduplicateNotes } from './sync/status';
-import { filterNotes, sortNotes } from './utils/filters';
+import { calculateSyncStatus, filterNewNotes, filterExistingNotes, filterMovedNotes, splitByModificationStatus, deduplicateNotes, isLocallyModified } from './sync/status';
+import { FilteredNote, filterNotes, getFilterOptions, getFilterReason, sortNotes } from './utils/filters';
 import { NoteImporter } from './sync/importer';
+import { convertTrashedNoteIds, migrateLegacyNoteIds, migrateManagedRegions, migrateTrashRules } from './sync/migration';
+import { findDeletedNotes, getPreviousEntry, pruneManifest, rebuildManifest } from './sync/manifest';
+import { SchedulerState, SyncScheduler } from './sync/scheduler';
+import { PageImageStore } from './sync/page-cache';
 
 interface WindowWithDebug {
     SUPERNOTE_DEBUG?: boolean;
 }
 
+/**
+ * Saved settings, including those of earlier versions
+ */
+interface SavedSettings extends Partial<SupernoteCompanionSettings> {
+    trashedNoteIds?: string[];      // Replaced by trash rules
+}
+
 export default class SupernoteCompanionPlugin extends Plugin {
     settings: SupernoteCompanionSettings;
     private apiClient: SupernoteAPIClient | null = null;
+    private thumbnailUrls = new Map<string, string>();   // note id + modified date -> image URL
+    private scheduler: SyncScheduler | null = null;
+    private statusBar: SyncStatusBar;
+    private syncing = false;                              // An import or update is writing to the vault
+    private pageCache: PageImageStore;
 
     async onload(): Promise<void> {
         await this.loadSettings();
 
+        // Page images are kept with the plugin, so updates after a restart reuse them too
+        const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        this.pageCache = new PageImageStore(this.app.vault.adapter, `${pluginDir}/page-cache`);
+
         // Add settings tab
         this.addSettingTab(new SupernoteSettingTab(this.app, this));
 
         // Register commands
         this.registerCommands();
 
+        // Device and sync state, click for the full status
+        this.statusBar = new SyncStatusBar(this.addStatusBarItem(), () => { void this.checkSyncStatus(); });
+        this.statusBar.setLastSync(this.settings.lastSync);
+
+        this.addRibbonIcon('tablet', 'Supernote sync', (evt) => this.showSyncMenu(evt));
+
+        // Device panel
+        this.registerView(VIEW_TYPE_DEVICE, (leaf) => new DeviceView(leaf, {
+            loadStatus: () => this.loadSyncStatus(),
+            importNotes: (notes) => this.executeImport(notes),
+            updateNotes: (notes) => this.updateFromView(notes),
+            trashNote: (note) => this.trashNote(note),
+            openLocal: (note) => this.openLocalNote(note),
+            getBrowseUrl: (note) => this.getAPIClient().getBrowseUrl(note.path.slice(0, note.path.lastIndexOf('/') + 1)),
+            getThumbnailSource: () => this.getThumbnailSource(),
+        }));
+
+        // Migrate notes and start background sync once the vault is ready
+        this.app.workspace.onLayoutReady(() => {
+            void this.migrateNotes().finally(() => this.restartScheduler());
+        });
+
         console.debug('Supernote Companion plugin loaded');
     }
 
     onunload(): void {
+        this.scheduler?.stop();
+        this.scheduler = null;
+
         // Clean up API client reference
         this.apiClient = null;
+
+        // Release generated thumbnail images
+        this.thumbnailUrls.forEach(url => {
+            if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+        });
+        this.thumbnailUrls.clear();
         console.debug('Supernote Companion plugin unloaded');
     }
 
     async loadSettings(): Promise<void> {
-        const data = await this.loadData() as SupernoteCompanionSettings | null;
+        const { trashedNoteIds, ...data } = (await this.loadData() as SavedSettings | null) ?? {};
         this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        this.settings.noteFilters = Object.assign({}, DEFAULT_SETTINGS.noteFilters, data.noteFilters);
+        if (trashedNoteIds) {
+            this.settings.trash = convertTrashedNoteIds(this.settings.trash, trashedNoteIds);
+        }
     }
 
     async saveSettings(): Promise<void> {
@@ -67,11 +127,244 @@ export default class SupernoteCompanionPlugin extends Plugin {
                     this.settings.devicePort,
                     this.settings.connectionTimeout
                 );
+                this.apiClient.setFileIdCache(this.settings.fileIdCache);
             }
         }
         return this.apiClient;
     }
 
+    /**
+     * Fetch notes from the device, without duplicates, trashed notes and notes
+     * left out by the note filters
+     */
+    private async fetchRemoteNotes(client: SupernoteAPIClient): Promise<SupernoteFile[]> {
+        const deviceNotes = await this.fetchDeviceNotes(client);
+        return this.filterRemoteNotes(deviceNotes);
+    }
+
+    /**
+     * Drop trashed notes and notes left out by the note filters
+     */
+    private filterRemoteNotes(deviceNotes: SupernoteFile[]): SupernoteFile[] {
+        return filterNotes(deviceNotes, this.settings.trash, getFilterOptions(this.settings.noteFilters));
+    }
+
+    /**
+     * Fetch all notes on the device (including trashed ones), without duplicates.
+     * Also persists the FILE_ID cache, migrates vault notes still using legacy IDs
+     * and brings the sync manifest in line with the vault.
+     */
+    private async fetchDeviceNotes(client: SupernoteAPIClient): Promise<SupernoteFile[]> {
+        const response = await client.fetchNoteFiles();
+        const remoteNotes = deduplicateNotes(response.data);
+
+        await migrateLegacyNoteIds(this.app, this.settings.notesFolder, remoteNotes);
+        this.settings.trash = migrateTrashRules(this.settings.trash, remoteNotes);
+        this.settings.fileIdCache = client.getFileIdCache();
+        this.settings.syncManifest = pruneManifest(this.settings.syncManifest, this.app.vault);
+        const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+        const rebuilt = rebuildManifest(this.settings.syncManifest, localNotes);
+        if (rebuilt > 0) {
+            console.debug(`Rebuilt ${rebuilt} sync manifest entries from frontmatter`);
+        }
+        await this.saveSettings();
+
+        return remoteNotes;
+    }
+
+    /**
+     * One-time migrations of imported notes. Migrated notes not edited since their
+     * last sync are recorded as synced, so rewriting them doesn't make them look
+     * edited in the vault; edited ones keep counting as edited.
+     */
+    private async migrateNotes(): Promise<void> {
+        if (this.settings.managedRegionsMigrated) return;
+
+        try {
+            // Notes can be in the folder of any rule, or archived after deletion on the device
+            const migrated = await migrateManagedRegions(this.app, [...this.getNoteFolders(), this.settings.archiveFolder]);
+            const manifest = this.settings.syncManifest;
+            const now = Date.now();
+            for (const note of migrated) {
+                const entry = manifest[note.id];
+                const edited = isLocallyModified(note, entry, this.settings.lastSync);
+                if (entry) {
+                    if (!edited) entry.lastSync = now;
+                } else if (note.sourcePath) {
+                    // Without an entry, the manifest would be rebuilt with the rewritten file's time
+                    manifest[note.id] = {
+                        devicePath: note.sourcePath,
+                        vaultPaths: { markdown: note.path, pdf: note.pdfPath },
+                        lastSync: edited ? this.settings.lastSync : now,
+                    };
+                }
+            }
+            this.settings.managedRegionsMigrated = true;
+            await this.saveSettings();
+        } catch (error) {
+            console.error('Failed to migrate notes to managed regions:', error);
+        }
+    }
+
+    /**
+     * Move the vault files of notes renamed or moved on the device, so the
+     * following import doesn't create duplicates next to the old files
+     */
+    private async applyMoves(remoteNotes: SupernoteFile[]): Promise<void> {
+        const manifest = this.settings.syncManifest;
+        const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+        const movedNotes = filterMovedNotes(remoteNotes, localNotes, manifest);
+        if (movedNotes.length === 0) return;
+
+        const importer = this.createImporter();
+        let movedCount = 0;
+
+        for (const note of movedNotes) {
+            const previous = getPreviousEntry(note, manifest, localNotes.get(note.id));
+            if (!previous) continue;
+
+            try {
+                manifest[note.id] = await importer.moveNote(note, previous, this.app.fileManager);
+                movedCount++;
+            } catch (error) {
+                console.error(`Failed to move ${note.name}:`, error);
+            }
+        }
+
+        await this.saveSettings();
+        new Notice(`Moved ${movedCount} note(s) renamed on the device`);
+    }
+
+    /**
+     * Fetch the notes to sync and move the vault files of renamed ones, for the
+     * manual commands
+     */
+    private async fetchAndApplyMoves(client: SupernoteAPIClient): Promise<SupernoteFile[]> {
+        return this.whileIdle(async () => {
+            const remoteNotes = await this.fetchRemoteNotes(client);
+            await this.applyMoves(remoteNotes);
+            return remoteNotes;
+        });
+    }
+
+    /**
+     * Run a manual command's vault writes while no import, update or background
+     * sync is running, and keep those from starting until it is done
+     */
+    private async whileIdle<T>(task: () => Promise<T>): Promise<T> {
+        if (this.syncing) {
+            throw new Error('A sync is already running, try again when it has finished');
+        }
+        this.syncing = true;
+        try {
+            return await task();
+        } finally {
+            this.syncing = false;
+        }
+    }
+
+    /**
+     * Start, restart or stop background sync to match the settings (call after they change)
+     */
+    restartScheduler(): void {
+        this.scheduler?.stop();
+        this.scheduler = null;
+
+        if (!this.settings.autoSync || !this.settings.deviceIp) return;
+
+        this.scheduler = new SyncScheduler(
+            Math.max(1, this.settings.autoSyncInterval) * 60 * 1000,
+            async () => (await this.getAPIClient().checkConnection()).connected,
+            () => this.runBackgroundSync(),
+            (state) => this.setSchedulerState(state)
+        );
+        this.scheduler.start();
+    }
+
+    private setSchedulerState(state: SchedulerState): void {
+        switch (state) {
+            case 'syncing':
+                this.statusBar.setActivity('syncing');
+                break;
+            case 'waiting':
+                this.statusBar.setActivity(null);
+                this.statusBar.setConnected(true);
+                break;
+            case 'offline':
+                this.statusBar.setActivity(null);
+                this.statusBar.setConnected(false);
+                break;
+        }
+    }
+
+    /**
+     * Import new notes and update changed ones without asking, for background sync.
+     * Locally modified notes are only overwritten when updateModifiedFiles is 'overwrite'.
+     */
+    private async runBackgroundSync(): Promise<void> {
+        if (this.syncing) return;
+        this.syncing = true;
+
+        try {
+            const client = this.getAPIClient();
+            const remoteNotes = await this.fetchRemoteNotes(client);
+            await this.applyMoves(remoteNotes);
+
+            const manifest = this.settings.syncManifest;
+            const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+            const existingPdfs = scanLocalPdfsByName(this.app.vault, this.getNoteFolders());
+            const status = calculateSyncStatus(remoteNotes, localNotes, existingPdfs, manifest);
+            this.statusBar.setCounts(status.new.length, status.updated.length);
+
+            const importer = this.createImporter();
+            importer.setManifest(manifest);
+            importer.setLocalNotes(Array.from(localNotes.values()));
+
+            const noProgress = (): void => {};
+            let imported = 0;
+            let updated = 0;
+
+            if (status.new.length > 0) {
+                imported = await importer.importNotesWithProgress(sortNotes(status.new, 'date', true), noProgress);
+            }
+
+            // Standalone PDFs have no edits to protect, they are written again
+            const pdfOnly = status.updated.filter(note => importer.getImportMode(note) === 'pdf-only');
+            if (pdfOnly.length > 0) {
+                updated += await importer.importNotesWithProgress(pdfOnly, noProgress);
+            }
+
+            const markdown = status.updated.filter(note => importer.getImportMode(note) !== 'pdf-only');
+            const existing = filterExistingNotes(markdown, localNotes);
+            const { modified, unmodified } = splitByModificationStatus(existing, localNotes, this.settings.lastSync, manifest);
+            const notesToUpdate = this.settings.updateModifiedFiles === 'overwrite' ? existing : unmodified;
+
+            if (notesToUpdate.length > 0) {
+                importer.setUpdateOptions(this.getUpdateOptions());
+                const pathMap = new Map<string, string>();
+                notesToUpdate.forEach(note => pathMap.set(note.id, localNotes.get(note.id)!.path));
+                updated += await importer.updateNotesWithProgress(notesToUpdate, pathMap, noProgress);
+            }
+
+            if (modified.length > 0 && notesToUpdate !== existing) {
+                console.debug(`Background sync skipped ${modified.length} locally modified note(s)`);
+            }
+
+            this.settings.lastSync = Date.now();
+            await this.saveSettings();
+            this.statusBar.reduceCounts(imported, updated);
+            this.statusBar.setLastSync(this.settings.lastSync);
+
+            if (imported > 0 || updated > 0) {
+                new Notice(`Supernote sync: ${imported} imported, ${updated} updated`);
+                this.refreshDeviceViews();
+            }
+        } finally {
+            this.syncing = false;
+            this.statusBar.setActivity(null);
+        }
+    }
+
     /**
      * Reset API client (call after settings change)
      */
@@ -79,12 +372,46 @@ export default class SupernoteCompanionPlugin extends Plugin {
         this.apiClient = null;
     }
 
+    /**
+     * Thumbnail loader for modal rows: uses the imported thumbnail when it is
+     * current, otherwise generates one from the device. Undefined when disabled
+     * or no device is configured. The importer and client are resolved per
+     * thumbnail, so a long-lived caller follows settings changes.
+     */
+    private getThumbnailSource(): ThumbnailSource | undefined {
+        if (!this.settings.includeThumbnail || !this.settings.deviceIp) {
+            return undefined;
+        }
+
+        return async (note) => {
+            const cacheKey = `${note.id}:${note.modifiedAt}`;
+            const cached = this.thumbnailUrls.get(cacheKey);
+            if (cached) return cached;
+
+            const importer = this.createImporter();
+            const client = this.getAPIClient();
+            let url: string | null = null;
+            const file = this.app.vault.getAbstractFileByPath(importer.getThumbnailPath(note));
+            if (file instanceof TFile && file.stat.mtime >= new Date(note.modifiedAt).getTime()) {
+                url = this.app.vault.getResourcePath(file);
+            } else {
+                const png = await client.getThumbnail(note.path);
+                if (png) {
+                    url = URL.createObjectURL(new Blob([png], { type: 'image/png' }));
+                }
+            }
+
+            if (url) this.thumbnailUrls.set(cacheKey, url);
+            return url;
+        };
+    }
+
     /**
      * Create a NoteImporter with current settings
      */
     private createImporter(exportOptions?: ExportOptions): NoteImporter {
         const client = this.getAPIClient();
-        return new NoteImporter(
+        const importer = new NoteImporter(
             this.app.vault,
             client,
             this.settings.notesFolder,
@@ -94,8 +421,55 @@ export default class SupernoteCompanionPlugin extends Plugin {
             this.settings.preserveFolderStructure,
             exportOptions || this.getExportOptions(),
             this.settings.converterMode,
-            this.settings.converterPath
+            this.settings.converterPath,
+            this.settings.attachmentsFolder
         );
+        importer.setTemplatePath(this.settings.noteTemplate);
+        importer.setFolderRules(this.settings.folderRules);
+        importer.setFileManager(this.app.fileManager);
+        importer.setPageCache(this.pageCache);
+        return importer;
+    }
+
+    /**
+     * Vault folders notes are imported to: the notes folder and those of the folder rules
+     */
+    private getNoteFolders(): string[] {
+        const folders = [this.settings.notesFolder, ...this.settings.folderRules.map(rule => rule.folder)];
+        return Array.from(new Set(folders));
+    }
+
+    /**
+     * Show the sync menu of the ribbon icon
+     */
+    private showSyncMenu(evt: MouseEvent): void {
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle('Check sync status')
+            .setIcon('refresh-cw')
+            .onClick(() => { void this.checkSyncStatus(); }));
+        menu.addItem(item => item
+            .setTitle('Import new notes')
+            .setIcon('download')
+            .onClick(() => { void this.importNewNotes(); }));
+        menu.addItem(item => item
+            .setTitle('Update existing notes')
+            .setIcon('file-diff')
+            .onClick(() => { void this.updateExistingNotes(); }));
+        menu.addItem(item => item
+            .setTitle('Handle notes deleted on device')
+            .setIcon('file-x')
+            .onClick(() => { void this.handleDeletedNotes(); }));
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle('Open device panel')
+            .setIcon('tablet')
+            .onClick(() => { void this.activateDeviceView(); }));
+        menu.addItem(item => item
+            .setTitle('Test connection')
+            .setIcon('wifi')
+            .onClick(() => { void this.testConnection(); }));
+        menu.showAtMouseEvent(evt);
     }
 
     /**
@@ -137,6 +511,27 @@ export default class SupernoteCompanionPlugin extends Plugin {
             callback: () => { void this.manageTrash(); }
         });
 
+        // Preview Note Filters
+        this.addCommand({
+            id: 'preview-note-filters',
+            name: 'Preview note filters',
+            callback: () => { void this.previewNoteFilters(); }
+        });
+
+        // Handle Deleted Notes
+        this.addCommand({
+            id: 'handle-deleted-notes',
+            name: 'Handle notes deleted on device',
+            callback: () => { void this.handleDeletedNotes(); }
+        });
+
+        // Device Panel
+        this.addCommand({
+            id: 'open-device-view',
+            name: 'Open device panel',
+            callback: () => { void this.activateDeviceView(); }
+        });
+
         // Test Connection
         this.addCommand({
             id: 'test-connection',
@@ -159,6 +554,7 @@ export default class SupernoteCompanionPlugin extends Plugin {
         try {
             const client = this.getAPIClient();
             const status = await client.checkConnection();
+            this.statusBar.setConnected(status.connected);
 
             if (status.connected) {
                 new Notice(`Connected to Supernote at ${this.settings.deviceIp}:${this.settings.devicePort}`);
@@ -166,6 +562,7 @@ export default class SupernoteCompanionPlugin extends Plugin {
                 new Notice(`Failed to connect: ${status.error || 'Unknown error'}\n\nMake sure Browse & Access is enabled on your Supernote.`);
             }
         } catch (error) {
+            this.statusBar.setConnected(false);
             new Notice(`Connection error: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
@@ -179,27 +576,12 @@ export default class SupernoteCompanionPlugin extends Plugin {
             return;
         }
 
-        const client = this.getAPIClient();
-
         try {
             new Notice('Checking sync status');
-
-            // Fetch remote notes
-            const response = await client.fetchNoteFiles();
-            let remoteNotes = deduplicateNotes(response.data);
-            remoteNotes = filterNotes(remoteNotes, this.settings.trashedNoteIds);
-
-            // Scan local notes (markdown with frontmatter)
-            const localNotes = await scanLocalNotes(this.app.vault, this.settings.notesFolder);
-            
-            // Also scan for existing PDFs by name (for pdf-only mode)
-            const existingPdfs = scanLocalPdfsByName(this.app.vault, this.settings.notesFolder);
-
-            // Calculate status
-            const status = calculateSyncStatus(remoteNotes, localNotes, existingPdfs);
+            const status = await this.loadSyncStatus();
 
             // Show status modal
-            new SyncStatusModal(this.app, status).open();
+            new SyncStatusModal(this.app, status, this.getThumbnailSource()).open();
 
         } catch (error) {
             console.error('Error checking sync status:', error);
@@ -207,6 +589,167 @@ export default class SupernoteCompanionPlugin extends Plugin {
         }
     }
 
+    /**
+     * Compare the notes on the device with the vault
+     */
+    private async loadSyncStatus(): Promise<SyncStatus> {
+        if (!this.settings.deviceIp) {
+            throw new Error('Please configure your Supernote device IP in settings first');
+        }
+
+        const client = this.getAPIClient();
+
+        // Fetch remote notes (all of them, so trashed and filtered notes don't count as deleted)
+        const deviceNotes = await this.whileIdle(() => this.fetchDeviceNotes(client));
+        const remoteNotes = this.filterRemoteNotes(deviceNotes);
+
+        // Scan local notes (markdown with frontmatter)
+        const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+
+        // Also scan for existing PDFs by name (for pdf-only mode)
+        const existingPdfs = scanLocalPdfsByName(this.app.vault, this.getNoteFolders());
+
+        const status = calculateSyncStatus(remoteNotes, localNotes, existingPdfs, this.settings.syncManifest, deviceNotes);
+        this.statusBar.setCounts(status.new.length, status.updated.length);
+        return status;
+    }
+
+    /**
+     * Show which notes on the device the note filters sync and which they leave
+     * out, and why. Trashed notes are not listed.
+     */
+    async previewNoteFilters(): Promise<void> {
+        if (!this.settings.deviceIp) {
+            new Notice('Please configure your Supernote device IP in settings first');
+            return;
+        }
+
+        try {
+            new Notice('Fetching notes from device');
+            const client = this.getAPIClient();
+            const deviceNotes = filterNotes(await this.whileIdle(() => this.fetchDeviceNotes(client)), this.settings.trash);
+            const filters = getFilterOptions(this.settings.noteFilters);
+
+            const matching: SupernoteFile[] = [];
+            const filteredOut: FilteredNote[] = [];
+            for (const note of sortNotes(deviceNotes, 'path')) {
+                const reason = getFilterReason(note, filters);
+                if (reason === null) {
+                    matching.push(note);
+                } else {
+                    filteredOut.push({ note, reason });
+                }
+            }
+
+            new FilterPreviewModal(this.app, matching, filteredOut).open();
+        } catch (error) {
+            console.error('Error previewing note filters:', error);
+            new Notice(`Failed to preview note filters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Open the device panel, or reveal it if already open
+     */
+    private async activateDeviceView(): Promise<void> {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_DEVICE)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getLeftLeaf(false);
+            if (!leaf) return;
+            await leaf.setViewState({ type: VIEW_TYPE_DEVICE, active: true });
+        }
+        await workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Reload open device panels (after a sync)
+     */
+    private refreshDeviceViews(): void {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DEVICE)) {
+            if (leaf.view instanceof DeviceView) {
+                void leaf.view.refresh();
+            }
+        }
+    }
+
+    /**
+     * Update notes from the device panel with the update settings. Notes edited in
+     * the vault are skipped or confirmed first, like with "Update existing notes".
+     */
+    private async updateFromView(notes: SupernoteFile[]): Promise<void> {
+        try {
+            await this.whileIdle(() => this.applyMoves(notes));
+        } catch (error) {
+            new Notice(`Update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return;
+        }
+
+        // Standalone PDFs are simply imported again
+        const importer = this.createImporter();
+        const pdfOnly = notes.filter(note => importer.getImportMode(note) === 'pdf-only');
+        if (pdfOnly.length > 0) {
+            await this.executeImport(pdfOnly, true);
+        }
+
+        const markdown = notes.filter(note => importer.getImportMode(note) !== 'pdf-only');
+        if (markdown.length === 0) return;
+
+        const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+        const existingNotes = filterExistingNotes(markdown, localNotes);
+        const { modified, unmodified } = splitByModificationStatus(
+            existingNotes,
+            localNotes,
+            this.settings.lastSync,
+            this.settings.syncManifest
+        );
+        const updateOptions = this.getUpdateOptions();
+
+        if (modified.length === 0 || this.settings.updateModifiedFiles === 'overwrite') {
+            await this.executeUpdate(existingNotes, localNotes, updateOptions);
+        } else if (this.settings.updateModifiedFiles === 'skip') {
+            new Notice(`${modified.length} modified file(s) skipped`);
+            if (unmodified.length > 0) {
+                await this.executeUpdate(unmodified, localNotes, updateOptions);
+            }
+        } else {
+            new ConfirmationModal(
+                this.app,
+                existingNotes,
+                'update',
+                (selectedNotes) => {
+                    void this.executeUpdate(selectedNotes, localNotes, updateOptions);
+                },
+                () => {
+                    new Notice('Update cancelled');
+                },
+                (note) => {
+                    void this.trashNote(note);
+                },
+                this.settings.lastSync,
+                localNotes,
+                this.getThumbnailSource()
+            ).open();
+        }
+    }
+
+    /**
+     * Open the vault copy of a note (its markdown, or its PDF in PDF-only mode)
+     */
+    private async openLocalNote(note: SupernoteFile): Promise<void> {
+        const entry = this.settings.syncManifest[note.id];
+        const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+        const path = entry?.vaultPaths.markdown ?? entry?.vaultPaths.pdf ?? localNotes.get(note.id)?.path;
+
+        const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+        if (!(file instanceof TFile)) {
+            new Notice(`No copy of ${note.name} found in the vault`);
+            return;
+        }
+        await this.app.workspace.getLeaf(false).openFile(file);
+    }
+
     /**
      * Import new notes command
      */
@@ -222,18 +765,16 @@ export default class SupernoteCompanionPlugin extends Plugin {
             new Notice('Fetching new notes');
 
             // Fetch and filter remote notes
-            const response = await client.fetchNoteFiles();
-            let remoteNotes = deduplicateNotes(response.data);
-            remoteNotes = filterNotes(remoteNotes, this.settings.trashedNoteIds);
+            const remoteNotes = await this.fetchAndApplyMoves(client);
 
             // Scan local notes (markdown with frontmatter)
-            const localNotes = await scanLocalNotes(this.app.vault, this.settings.notesFolder);
+            const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
             
             // Also scan for existing PDFs by name (for pdf-only mode)
-            const existingPdfs = scanLocalPdfsByName(this.app.vault, this.settings.notesFolder);
+            const existingPdfs = scanLocalPdfsByName(this.app.vault, this.getNoteFolders());
 
             // Filter to only new notes (not in local markdown OR existing PDFs)
-            const newNotes = filterNewNotes(remoteNotes, localNotes, existingPdfs);
+            const newNotes = filterNewNotes(remoteNotes, localNotes, existingPdfs, this.settings.syncManifest);
 
             if (newNotes.length === 0) {
                 new Notice('No new notes to import');
@@ -254,9 +795,12 @@ export default class SupernoteCompanionPlugin extends Plugin {
                 () => {
                     new Notice('Import cancelled');
                 },
-                (noteId) => {
-                    void this.trashNote(noteId);
-                }
+                (note) => {
+                    void this.trashNote(note);
+                },
+                undefined,
+                undefined,
+                this.getThumbnailSource()
             ).open();
 
         } catch (error) {
@@ -267,46 +811,71 @@ export default class SupernoteCompanionPlugin extends Plugin {
 
     /**
      * Execute the actual import
+     * @param force Convert and write notes even if unchanged since their last sync
      */
-    private async executeImport(notes: SupernoteFile[]): Promise<void> {
+    private async executeImport(notes: SupernoteFile[], force: boolean = false): Promise<void> {
         if (notes.length === 0) {
             new Notice('No notes selected');
             return;
         }
-
-        const progressNotice = new Notice('Starting import...', 0);
+        if (this.syncing) {
+            new Notice('A sync is already running, try again when it has finished');
+            return;
+        }
+        this.syncing = true;
+
+        const controller = new AbortController();
+        const progressModal = new ImportProgressModal(
+            this.app,
+            `Importing ${notes.length} note(s)`,
+            ['download', 'convert', 'write'],
+            () => controller.abort()
+        );
+        progressModal.open();
 
         try {
             const importer = this.createImporter();
+            importer.setManifest(this.settings.syncManifest);
+            if (notes.some(note => importer.getImportMode(note) !== 'pdf-only')) {
+                const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
+                importer.setLocalNotes(Array.from(localNotes.values()));
+            }
 
-            let finalFailureCount = 0;
+            let finalUnchangedCount = 0;
 
             const successCount = await importer.importNotesWithProgress(
                 notes,
-                (current, total, success, failures, title) => {
-                    finalFailureCount = failures;
-                    progressNotice.setMessage(
-                        `Importing: ${title}\nProgress: ${current}/${total} - ${success} success, ${failures} failed`
-                    );
-                }
+                (current, total, success, failures, title, unchanged = 0, phase) => {
+                    finalUnchangedCount = unchanged;
+                    this.statusBar.setActivity(`importing ${success + unchanged + failures}/${notes.length}`);
+                    progressModal.onProgress(current, total, success, failures, title, unchanged, phase);
+                },
+                controller.signal,
+                force
             );
 
-            // Update last sync timestamp
+            // Update last sync timestamp (notes written before cancelling count as synced)
             this.settings.lastSync = Date.now();
             await this.saveSettings();
-
-            // Update notice
-            progressNotice.setMessage(`Successfully imported ${successCount} note(s)`);
-            setTimeout(() => progressNotice.hide(), 3000);
-
-            if (finalFailureCount > 0) {
-                new Notice(`Failed to import ${finalFailureCount} note(s)`);
+            this.statusBar.reduceCounts(successCount, 0);
+            this.statusBar.setLastSync(this.settings.lastSync);
+            this.refreshDeviceViews();
+
+            let summary = controller.signal.aborted
+                ? `Import cancelled after ${successCount} note(s)`
+                : `Successfully imported ${successCount} note(s)`;
+            if (finalUnchangedCount > 0) {
+                summary += `, ${finalUnchangedCount} unchanged`;
             }
+            progressModal.showSummary(summary, importer.getFailures());
 
         } catch (error) {
-            progressNotice.hide();
+            progressModal.close();
             console.error('Error during import:', error);
             new Notice(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            this.syncing = false;
+            this.statusBar.setActivity(null);
         }
     }
 
@@ -325,12 +894,10 @@ export default class SupernoteCompanionPlugin extends Plugin {
             new Notice('Fetching notes to update');
 
             // Fetch and filter remote notes
-            const response = await client.fetchNoteFiles();
-            let remoteNotes = deduplicateNotes(response.data);
-            remoteNotes = filterNotes(remoteNotes, this.settings.trashedNoteIds);
+            const remoteNotes = await this.fetchAndApplyMoves(client);
 
             // Scan local notes
-            const localNotes = await scanLocalNotes(this.app.vault, this.settings.notesFolder);
+            const localNotes = await scanLocalNotes(this.app.vault, this.getNoteFolders());
 
             // Filter to only existing notes
             const existingNotes = filterExistingNotes(remoteNotes, localNotes);
@@ -344,7 +911,8 @@ export default class SupernoteCompanionPlugin extends Plugin {
             const { modified, unmodified } = splitByModificationStatus(
                 existingNotes,
                 localNotes,
-                this.settings.lastSync
+                this.settings.lastSync,
+                this.settings.syncManifest
             );
 
             // Apply modification handling setting
@@ -400,8 +968,13 @@ export default class SupernoteCompanionPlugin extends Plugin {
         const previewNotice = new Notice('Generating update preview...', 0);
 
         try {
-            // Generate previews (simplified - in a real implementation you'd analyze actual changes)
+            // Compute each update against the current file, without writing
             const previews: NoteUpdatePreview[] = [];
+            const importer = this.createImporter(updateOptions.exportOptions);
+            importer.setUpdateOptions(updateOptions);
+            importer.setLocalNotes(Array.from(localNotes.values()));
+            importer.setManifest(this.settings.syncManifest);
+            let failedCount = 0;
 
             for (let i = 0; i < notes.length; i++) {
                 const note = notes[i];
@@ -411,23 +984,22 @@ export default class SupernoteCompanionPlugin extends Plugin {
 
                 previewNotice.setMessage(`Analyzing ${i + 1}/${notes.length}: ${note.name}`);
 
-                // Simplified preview - in production, you'd actually diff the files
-                previews.push({
-                    note,
-                    localFile,
-                    preview: {
-                        hasChanges: true,
-                        frontmatterChanges: [
-                            { field: 'modified', oldValue: '', newValue: note.modifiedAt }
-                        ],
-                        contentChanged: updateOptions.mode === 'all' || updateOptions.mode === 'content-only',
-                        customFieldsPreserved: updateOptions.preserveCustomFields ? ['custom_field'] : []
-                    }
-                });
+                try {
+                    const locallyModified = isLocallyModified(localFile, this.settings.syncManifest[note.id], this.settings.lastSync);
+                    const preview = await importer.previewUpdate(note, localFile.path, locallyModified);
+                    previews.push({ note, localFile, preview });
+                } catch (error) {
+                    console.warn(`Could not preview update of ${note.name}:`, error);
+                    failedCount++;
+                }
             }
 
             previewNotice.hide();
 
+            if (failedCount > 0) {
+                new Notice(`Could not preview ${failedCount} note(s), see the console for details`);
+            }
+
             if (previews.length === 0) {
                 new Notice('No changes detected');
                 return;
@@ -452,11 +1024,12 @@ export default class SupernoteCompanionPlugin extends Plugin {
                         () => {
                             new Notice('Update cancelled');
                         },
-                        (noteId) => {
-                            void this.trashNote(noteId);
+                        (note) => {
+                            void this.trashNote(note);
                         },
                         this.settings.updateModifiedFiles === 'ask' ? this.settings.lastSync : undefined,
-                        this.settings.updateModifiedFiles === 'ask' ? localNotes : undefined
+                        this.settings.updateModifiedFiles === 'ask' ? localNotes : undefined,
+                        this.getThumbnailSource()
                     ).open();
                 },
                 () => {
@@ -483,12 +1056,26 @@ export default class SupernoteCompanionPlugin extends Plugin {
             new Notice('No notes selected');
             return;
         }
-
-        const progressNotice = new Notice('Starting update...', 0);
+        if (this.syncing) {
+            new Notice('A sync is already running, try again when it has finished');
+            return;
+        }
+        this.syncing = true;
+
+        const controller = new AbortController();
+        const progressModal = new ImportProgressModal(
+            this.app,
+            `Updating ${notes.length} note(s)`,
+            ['write'],
+            () => controller.abort()
+        );
+        progressModal.open();
 
         try {
             const importer = this.createImporter(updateOptions.exportOptions);
             importer.setUpdateOptions(updateOptions);
+            importer.setLocalNotes(Array.from(localNotes.values()));
+            importer.setManifest(this.settings.syncManifest);
 
             // Build path map
             const pathMap = new Map<string, string>();
@@ -499,35 +1086,37 @@ export default class SupernoteCompanionPlugin extends Plugin {
                 }
             });
 
-            let finalFailureCount = 0;
-
             const successCount = await importer.updateNotesWithProgress(
                 notes,
                 pathMap,
-                (current, total, success, failures, title) => {
-                    finalFailureCount = failures;
-                    progressNotice.setMessage(
-                        `Updating: ${title}\nProgress: ${current}/${total} - ${success} success, ${failures} failed`
-                    );
-                }
+                (current, total, success, failures, title, unchanged, phase) => {
+                    this.statusBar.setActivity(`updating ${current}/${total}`);
+                    progressModal.onProgress(current, total, success, failures, title, unchanged, phase);
+                },
+                controller.signal
             );
 
             // Update last sync timestamp
             this.settings.lastSync = Date.now();
             await this.saveSettings();
-
-            // Update notice
-            progressNotice.setMessage(`Successfully updated ${successCount} note(s)`);
-            setTimeout(() => progressNotice.hide(), 3000);
-
-            if (finalFailureCount > 0) {
-                new Notice(`Failed to update ${finalFailureCount} note(s)`);
-            }
+            this.statusBar.reduceCounts(0, successCount);
+            this.statusBar.setLastSync(this.settings.lastSync);
+            this.refreshDeviceViews();
+
+            progressModal.showSummary(
+                controller.signal.aborted
+                    ? `Update cancelled after ${successCount} note(s)`
+                    : `Successfully updated ${successCount} note(s)`,
+                importer.getFailures()
+            );
 
         } catch (error) {
-            progressNotice.hide();
+            progressModal.close();
             console.error('Error during update:', error);
             new Notice(`Update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            this.syncing = false;
+            this.statusBar.setActivity(null);
         }
     }
 
@@ -546,9 +1135,7 @@ export default class SupernoteCompanionPlugin extends Plugin {
             new Notice('Fetching all notes');
 
             // Fetch ALL notes (no filtering except trash)
-            const response = await client.fetchNoteFiles();
-            let allNotes = deduplicateNotes(response.data);
-            allNotes = filterNotes(allNotes, this.settings.trashedNoteIds);
+            const allNotes = await this.fetchAndApplyMoves(client);
 
             if (allNotes.length === 0) {
                 new Notice('No notes found');
@@ -564,14 +1151,17 @@ export default class SupernoteCompanionPlugin extends Plugin {
                 sortedNotes,
                 'export',
                 (selectedNotes) => {
-                    void this.executeImport(selectedNotes); // Same as import, but overwrites
+                    void this.executeImport(selectedNotes, true); // Same as import, but overwrites unchanged notes too
                 },
                 () => {
                     new Notice('Export cancelled');
                 },
-                (noteId) => {
-                    void this.trashNote(noteId);
-                }
+                (note) => {
+                    void this.trashNote(note);
+                },
+                undefined,
+                undefined,
+                this.getThumbnailSource()
             ).open();
 
         } catch (error) {
@@ -580,36 +1170,136 @@ export default class SupernoteCompanionPlugin extends Plugin {
         }
     }
 
+    /**
+     * Handle notes deleted on the device according to the deletion policy, after confirmation
+     */
+    private async handleDeletedNotes(): Promise<void> {
+        if (!this.settings.deviceIp) {
+            new Notice('Please configure your Supernote device IP in settings first');
+            return;
+        }
+
+        const client = this.getAPIClient();
+
+        try {
+            new Notice('Checking for deleted notes');
+
+            const deviceNotes = await this.whileIdle(() => this.fetchDeviceNotes(client));
+            const deletedNotes = findDeletedNotes(this.settings.syncManifest, deviceNotes);
+
+            if (deletedNotes.length === 0) {
+                new Notice('No notes were deleted on the device');
+                return;
+            }
+
+            if (this.settings.deletionPolicy === 'keep') {
+                new Notice(`${deletedNotes.length} note(s) were deleted on the device. They are kept in the vault, as set in settings.`);
+                return;
+            }
+
+            new ConfirmationModal(
+                this.app,
+                sortNotes(deletedNotes, 'date', true),
+                'delete',
+                (selectedNotes) => {
+                    void this.executeDeletion(selectedNotes);
+                },
+                () => {
+                    new Notice('Cancelled');
+                },
+                () => {}
+            ).open();
+
+        } catch (error) {
+            console.error('Error checking deleted notes:', error);
+            new Notice(`Failed to fetch notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Apply the deletion policy to the vault files of the selected deleted notes
+     */
+    private async executeDeletion(notes: SupernoteFile[]): Promise<void> {
+        if (notes.length === 0) {
+            new Notice('No notes selected');
+            return;
+        }
+        if (this.syncing) {
+            new Notice('A sync is already running, try again when it has finished');
+            return;
+        }
+        this.syncing = true;
+
+        const importer = this.createImporter();
+        const manifest = this.settings.syncManifest;
+        let handledCount = 0;
+        let failureCount = 0;
+
+        try {
+            for (const note of notes) {
+                const entry = manifest[note.id];
+                if (!entry) continue;
+
+                try {
+                    const handled = await importer.handleDeletedNote(
+                        entry,
+                        this.settings.deletionPolicy,
+                        this.settings.archiveFolder,
+                        this.app.fileManager
+                    );
+                    if (handled) {
+                        delete manifest[note.id];
+                        handledCount++;
+                    }
+                } catch (error) {
+                    console.error(`Failed to handle deleted note ${note.name}:`, error);
+                    failureCount++;
+                }
+            }
+
+            await this.saveSettings();
+        } finally {
+            this.syncing = false;
+        }
+
+        new Notice(`Handled ${handledCount} deleted note(s)`);
+        if (failureCount > 0) {
+            new Notice(`Failed to handle ${failureCount} note(s)`);
+        }
+    }
+
     /**
      * Manage trashed notes command
      */
     private async manageTrash(): Promise<void> {
         try {
-            // Try to fetch details for trashed notes
-            let trashedNotes: SupernoteFile[] = [];
+            // Notes on the device, to count what each rule hides (null when offline)
+            let deviceNotes: SupernoteFile[] | null = null;
 
-            if (this.settings.trashedNoteIds.length > 0 && this.settings.deviceIp) {
+            if (this.settings.deviceIp) {
                 try {
                     const client = this.getAPIClient();
                     const response = await client.fetchNoteFiles();
-                    trashedNotes = response.data.filter(n => 
-                        this.settings.trashedNoteIds.includes(n.id)
-                    );
+                    deviceNotes = deduplicateNotes(response.data);
+                    this.settings.trash = migrateTrashRules(this.settings.trash, deviceNotes);
                 } catch {
-                    // If we can't fetch, just show IDs
-                    trashedNotes = [];
+                    // If we can't fetch, just show the rules
+                    deviceNotes = null;
                 }
             }
 
             new TrashManagementModal(
                 this.app,
-                this.settings.trashedNoteIds,
-                trashedNotes,
-                (noteId) => {
-                    void this.restoreNote(noteId);
+                this.settings.trash,
+                deviceNotes,
+                (rule) => {
+                    void this.addTrashRule(rule);
+                },
+                (rule) => {
+                    void this.removeTrashRule(rule);
                 },
                 () => {
-                    void this.restoreAllNotes();
+                    void this.clearTrash();
                 }
             ).open();
 
@@ -622,37 +1312,60 @@ export default class SupernoteCompanionPlugin extends Plugin {
     /**
      * Add a note to trash (exclude from future syncs)
      */
-    private async trashNote(noteId: string): Promise<void> {
-        if (!this.settings.trashedNoteIds.includes(noteId)) {
-            this.settings.trashedNoteIds.push(noteId);
-            await this.saveSettings();
+    private async trashNote(note: SupernoteFile): Promise<void> {
+        if (await this.addTrashRule({ type: 'note', value: note.id, label: note.path, trashedAt: Date.now() })) {
             new Notice('Note trashed');
         }
     }
 
     /**
-     * Restore a note from trash
+     * Add a trash rule, unless one with the same type and value exists
+     * @returns Whether the rule was added
      */
-    private async restoreNote(noteId: string): Promise<void> {
-        this.settings.trashedNoteIds = this.settings.trashedNoteIds.filter(id => id !== noteId);
+    private async addTrashRule(rule: TrashRule): Promise<boolean> {
+        if (this.settings.trash.some(other => other.type === rule.type && other.value === rule.value)) {
+            return false;
+        }
+        this.settings.trash.push(rule);
         await this.saveSettings();
+        return true;
     }
 
     /**
-     * Restore all notes from trash
+     * Remove a trash rule, so the notes it hid are synced again
      */
-    private async restoreAllNotes(): Promise<void> {
-        this.settings.trashedNoteIds = [];
+    private async removeTrashRule(rule: TrashRule): Promise<void> {
+        this.settings.trash = this.settings.trash.filter(other => other.type !== rule.type || other.value !== rule.value);
+        await this.saveSettings();
+    }
+
+    /**
+     * Remove all trash rules
+     */
+    private async clearTrash(): Promise<void> {
+        this.settings.trash = [];
         await this.saveSettings();
     }
 
     /**
      * Get export options from settings
      */
+    private getUpdateOptions(): UpdateOptions {
+        return {
+            mode: this.settings.updateMode,
+            specificFields: this.settings.specificFrontmatterFields,
+            preserveCustomFields: this.settings.preserveCustomFields,
+            arrayMergeStrategy: { tags: this.settings.tagsMergeStrategy },
+            exportOptions: this.getExportOptions(),
+        };
+    }
+
     private getExportOptions(): ExportOptions {
         return {
             attachPdf: this.settings.attachPdf,
             includeThumbnail: this.settings.includeThumbnail,
+            includeTranscription: this.settings.includeTranscription,
+            includeVectorPages: this.settings.includeVectorPages,
         };
     }
 }
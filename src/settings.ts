@@ -1,9 +1,57 @@
-import { UpdateMode, FrontmatterField, MergeStrategy } from './api/types';
+import { UpdateMode, FrontmatterField, MergeStrategy, SyncManifest } from './api/types';
 
 /**
  * Import mode options
  */
-export type ImportMode = 'pdf-only' | 'markdown-with-pdf' | 'markdown-only';
+export type ImportMode = 'pdf-only' | 'markdown-with-pdf' | 'markdown-with-images' | 'markdown-only';
+
+/**
+ * Import settings for notes in matching device folders. Rules are checked in
+ * order; notes matching none use the general sync settings.
+ */
+export interface FolderRule {
+    pattern: string;                // Glob on the device path, e.g. "/Note/Work/**"
+    folder: string;                 // Vault folder for matching notes
+    importMode: ImportMode;
+    filenameTemplate: string;       // Empty to use the general filename template
+    tags: string[];                 // Tags added to matching markdown notes
+}
+
+/**
+ * What a trash rule matches: a single note by ID, every note in a device folder
+ * and its subfolders, or device paths matching a glob
+ */
+export type TrashRuleType = 'note' | 'folder' | 'pattern';
+
+/**
+ * Notes excluded from sync
+ */
+export interface TrashRule {
+    type: TrashRuleType;
+    value: string;                  // Note ID, device folder (e.g. "/Note/Templates") or glob
+    label: string;                  // Shown in the trash, e.g. the device path of a trashed note; empty if unknown
+    trashedAt: number;              // Timestamp the rule was added, 0 if unknown
+}
+
+/**
+ * Which notes on the device are synced at all. Notes left out are skipped by
+ * status, import, update and bulk export, like trashed notes.
+ */
+export interface NoteFilters {
+    includePaths: string[];         // Globs on the device path; empty to include all folders
+    excludePaths: string[];         // Globs on the device path, e.g. "/Note/Templates/**"
+    includeNames: string[];         // Regexes on the note name (case-insensitive); empty to include all
+    excludeNames: string[];
+    minSizeKb: number;              // 0 for no lower bound
+    maxSizeKb: number;              // 0 for no upper bound
+    modifiedAfter: string;          // YYYY-MM-DD, empty for no bound
+    modifiedBefore: string;
+}
+
+/**
+ * What to do with vault files of notes deleted on the device
+ */
+export type DeletionPolicy = 'keep' | 'mark' | 'archive' | 'trash';
 
 /**
  * PDF converter options
@@ -21,11 +69,22 @@ export interface SupernoteCompanionSettings {
     // Sync Configuration
     notesFolder: string;            // Vault folder for notes (PDF or markdown depending on mode)
     pdfFolder: string;              // Vault folder for PDF attachments (only used in markdown-with-pdf mode)
+    attachmentsFolder: string;      // Vault folder for page images embedded in markdown
     importMode: ImportMode;         // How to import notes
     filenameTemplate: string;       // Template for filenames, supports {name}, {date}, {created}, {modified}, {pages}, {id}
+    noteTemplate: string;           // Vault path of a template for generated markdown, empty for the built-in layout
     preserveFolderStructure: boolean; // Preserve folder structure from Supernote device
-    trashedNoteIds: string[];       // IDs of notes user has "trashed" (excluded from sync)
+    folderRules: FolderRule[];      // Per-folder destinations and import settings, checked before the general ones
+    trash: TrashRule[];             // Notes, folders and patterns the user has "trashed" (excluded from sync)
+    noteFilters: NoteFilters;       // Include/exclude filters for notes on the device
+    fileIdCache: Record<string, string>; // FILE_IDs read from note headers, keyed by device URI + size
     lastSync: number;               // Timestamp of last successful sync
+    managedRegionsMigrated: boolean; // Notes from before managed regions were given their markers
+    autoSync: boolean;              // Sync in the background while the device is reachable
+    autoSyncInterval: number;       // Minutes between background connection checks
+    syncManifest: SyncManifest;     // Device and vault paths of imported notes, keyed by note ID
+    deletionPolicy: DeletionPolicy; // How to handle notes deleted on the device
+    archiveFolder: string;          // Vault folder for notes archived after deletion on the device
     
     // PDF Converter
     converterMode: ConverterMode;   // 'cli' for supernote_pdf binary, 'builtin' for TypeScript implementation
@@ -41,6 +100,8 @@ export interface SupernoteCompanionSettings {
     // Export Options (only used in markdown modes)
     attachPdf: boolean;
     includeThumbnail: boolean;
+    includeTranscription: boolean;  // Add recognized handwriting text to the markdown body
+    includeVectorPages: boolean;    // Embed per-page SVGs rendered from pen strokes
     
     // Advanced
     connectionTimeout: number;       // Timeout in ms for device connections
@@ -57,11 +118,31 @@ export const DEFAULT_SETTINGS: SupernoteCompanionSettings = {
     // Sync Configuration
     notesFolder: '/Supernote',
     pdfFolder: '/Supernote/PDFs',
+    attachmentsFolder: '/Supernote/attachments',
     importMode: 'pdf-only',         // Default to simple PDF-only import
     filenameTemplate: '{name}',     // Simple default - just use the note name
+    noteTemplate: '',
     preserveFolderStructure: true,  // Preserve Supernote folder structure by default
-    trashedNoteIds: [],
+    folderRules: [],
+    trash: [],
+    noteFilters: {
+        includePaths: [],
+        excludePaths: [],
+        includeNames: [],
+        excludeNames: [],
+        minSizeKb: 0,
+        maxSizeKb: 0,
+        modifiedAfter: '',
+        modifiedBefore: '',
+    },
+    fileIdCache: {},
     lastSync: 0,
+    managedRegionsMigrated: false,
+    autoSync: false,                // Opt-in: syncs only run from commands by default
+    autoSyncInterval: 5,
+    syncManifest: {},
+    deletionPolicy: 'mark',         // Flag deleted notes in frontmatter, never remove by default
+    archiveFolder: '/Supernote/archive',
     
     // PDF Converter
     converterMode: 'cli',           // Default to CLI (more reliable)
@@ -77,6 +158,8 @@ export const DEFAULT_SETTINGS: SupernoteCompanionSettings = {
     // Export Options
     attachPdf: true,
     includeThumbnail: false,
+    includeTranscription: true,
+    includeVectorPages: false,
     
     // Advanced
     connectionTimeout: 10000,
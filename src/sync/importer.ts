@@ -1,10 +1,14 @@
-import { Vault, TFolder, TFile, normalizePath } from 'obsidian';
+import { Vault, TFolder, TFile, FileManager, normalizePath } from 'obsidian';
 import { SupernoteAPIClient } from '../api/client';
 import { PdfConverter } from '../api/converter';
-import { SupernoteFile, ExportOptions, UpdateOptions } from '../api/types';
-import { ImportMode, ConverterMode } from '../settings';
-import { generateMarkdown, generateFilename, generatePdfFilename, updateFrontmatter } from '../utils/markdown';
-import { parseFrontmatter } from './matcher';
+import { PageImageCache, PdfBuildOptions } from '../api/note-parser';
+import { SupernoteFile, ExportOptions, UpdateOptions, UpdatePreview, NoteContent, LocalNoteFile, PageImage, ManifestEntry, NoteVaultPaths, SyncManifest } from '../api/types';
+import { ImportMode, ConverterMode, DeletionPolicy, FolderRule } from '../settings';
+import { formatFileSize, generateMarkdown, generateBody, generateFilename, generatePdfFilename, generateTags, formatKeywords, updateFrontmatter, replaceBody, getBody, mergeManagedBody, parseFrontmatter } from '../utils/markdown';
+import { diffLines } from '../utils/diff';
+import { globBase, matchesGlob } from '../utils/glob';
+import { sha256 } from '../utils/hash';
+import { CancelledError } from '../utils/abort';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -39,16 +43,33 @@ async function parallelLimit<T, R>(
 }
 
 /**
- * Progress callback type for tracking import progress
+ * Phases of an import: downloading from the device, converting, and writing to the vault
+ */
+export type ImportPhase = 'download' | 'convert' | 'write';
+
+/**
+ * Progress callback type for tracking import progress.
+ * Notes whose content matches the last sync are counted as unchanged, not as successes.
+ * `current` counts the notes done in `phase` (updates report the write phase only).
  */
 export type ProgressCallback = (
     current: number,
     total: number,
     successCount: number,
     failureCount: number,
-    currentTitle: string
+    currentTitle: string,
+    unchangedCount?: number,
+    phase?: ImportPhase
 ) => void;
 
+/**
+ * A note that could not be imported or updated
+ */
+export interface ImportFailure {
+    note: SupernoteFile;
+    error: string;
+}
+
 /**
  * Result of an import/update operation
  */
@@ -57,15 +78,30 @@ export interface ImportResult {
     note: SupernoteFile;
     markdownPath?: string;
     pdfPath?: string;
+    contentHash?: string;   // SHA-256 of the downloaded .note file
+    pageHashes?: string[];  // Fingerprint of each page
+    changedPages?: number[]; // 1-based pages that differ from the last sync
     error?: string;
 }
 
+/**
+ * Where and how a note is imported, from its folder rule or the general settings
+ */
+interface NoteRule {
+    folder: string;                 // Vault folder
+    deviceFolder: string;           // Device folder the preserved folder structure starts below
+    importMode: ImportMode;
+    filenameTemplate: string;
+    tags: string[];                 // Extra tags for markdown notes
+}
+
 /**
  * NoteImporter handles importing and updating Supernote files in the vault.
  *
- * Supports three import modes:
+ * Supports four import modes:
  * - pdf-only: Just imports the PDF files (simplest, cleanest)
  * - markdown-with-pdf: Creates markdown files with PDF attachments
+ * - markdown-with-images: Creates markdown files embedding one PNG per page
  * - markdown-only: Creates markdown files without PDF conversion
  */
 export class NoteImporter {
@@ -74,11 +110,21 @@ export class NoteImporter {
     private pdfConverter: PdfConverter;
     private notesFolder: string;
     private pdfFolder: string;
+    private attachmentsFolder: string;
     private importMode: ImportMode;
     private filenameTemplate: string;
     private preserveFolderStructure: boolean;
     private exportOptions: ExportOptions;
     private updateOptions?: UpdateOptions;
+    private localNotes: LocalNoteFile[] = [];
+    private manifest?: SyncManifest;
+    private fileManager?: FileManager;          // Trashes leftover page images; they are kept when unset
+    private pageCache?: PageImageCache;         // Page images kept between conversions; in memory when unset
+    private converterVersion?: Promise<string>;  // Probed once, on first use
+    private failures: ImportFailure[] = [];
+    private templatePath = '';
+    private folderRules: FolderRule[] = [];
+    private template?: string;                  // Loaded from templatePath on first use
 
     constructor(
         vault: Vault,
@@ -90,13 +136,15 @@ export class NoteImporter {
         preserveFolderStructure: boolean,
         exportOptions: ExportOptions,
         converterMode: ConverterMode = 'cli',
-        converterPath: string = ''
+        converterPath: string = '',
+        attachmentsFolder: string = '/Supernote/attachments'
     ) {
         this.vault = vault;
         this.client = client;
         this.pdfConverter = new PdfConverter(converterMode, converterPath);
         this.notesFolder = notesFolder;
         this.pdfFolder = pdfFolder;
+        this.attachmentsFolder = attachmentsFolder;
         this.importMode = importMode;
         this.filenameTemplate = filenameTemplate;
         this.preserveFolderStructure = preserveFolderStructure;
@@ -117,6 +165,16 @@ export class NoteImporter {
         return this.pdfConverter.getToolVersion();
     }
 
+    /**
+     * Version of the PDF converter, recorded with each PDF written
+     */
+    private getConverterVersion(): Promise<string> {
+        if (!this.converterVersion) {
+            this.converterVersion = this.getPdfToolVersion();
+        }
+        return this.converterVersion;
+    }
+
     /**
      * Set update options for selective updates
      */
@@ -124,22 +182,117 @@ export class NoteImporter {
         this.updateOptions = options;
     }
 
+    /**
+     * Set the notes already in the vault, used to turn note links into wikilinks
+     */
+    setLocalNotes(localNotes: LocalNoteFile[]): void {
+        this.localNotes = localNotes;
+    }
+
+    /**
+     * Set the sync manifest; successful imports and updates are recorded in it
+     */
+    setManifest(manifest: SyncManifest): void {
+        this.manifest = manifest;
+    }
+
+    /**
+     * Set the file manager, used to trash files the vault no longer needs
+     */
+    setFileManager(fileManager: FileManager): void {
+        this.fileManager = fileManager;
+    }
+
+    /**
+     * Set where page images are kept between conversions, so unchanged pages are not rendered again
+     */
+    setPageCache(pageCache: PageImageCache): void {
+        this.pageCache = pageCache;
+    }
+
+    /**
+     * Set the folder rules, checked in order before the general import settings
+     */
+    setFolderRules(rules: FolderRule[]): void {
+        this.folderRules = rules;
+    }
+
+    /**
+     * How a note is imported, by its folder rule or the general import mode
+     */
+    getImportMode(note: SupernoteFile): ImportMode {
+        return this.ruleFor(note).importMode;
+    }
+
+    /**
+     * The import settings for a note: those of the first folder rule matching
+     * its device path, or the general ones
+     */
+    private ruleFor(note: SupernoteFile): NoteRule {
+        const rule = this.folderRules.find(candidate => candidate.pattern && matchesGlob(note.path, candidate.pattern));
+        if (!rule) {
+            return {
+                folder: this.notesFolder,
+                deviceFolder: '/Note',
+                importMode: this.importMode,
+                filenameTemplate: this.filenameTemplate,
+                tags: [],
+            };
+        }
+        return {
+            folder: rule.folder,
+            deviceFolder: globBase(rule.pattern),
+            importMode: rule.importMode,
+            filenameTemplate: rule.filenameTemplate || this.filenameTemplate,
+            tags: rule.tags,
+        };
+    }
+
+    /**
+     * Export options for a note, with the tags of its folder rule
+     */
+    private exportOptionsFor(note: SupernoteFile, options: ExportOptions = this.exportOptions): ExportOptions {
+        return { ...options, extraTags: this.ruleFor(note).tags };
+    }
+
+    /**
+     * Set the vault path of the template for generated notes (empty for the built-in layout)
+     */
+    setTemplatePath(templatePath: string): void {
+        this.templatePath = templatePath;
+        this.template = undefined;
+    }
+
+    /**
+     * Failures of the last import or update, with their error messages
+     */
+    getFailures(): ImportFailure[] {
+        return this.failures;
+    }
+
     /**
      * Import multiple notes with progress tracking.
-     * Uses batch mode for pdf-only imports with CLI converter (much faster).
+     * Uses batch mode when all notes are imported as PDF only with the CLI converter (much faster).
      * Falls back to single-file mode for other import modes or built-in converter.
+     * Once the signal aborts, no further notes are started; notes already written
+     * stay in the vault and are recorded in the manifest.
+     * @param force Convert and write notes even if unchanged since their last sync
      */
     async importNotesWithProgress(
         notes: SupernoteFile[],
-        onProgress: ProgressCallback
+        onProgress: ProgressCallback,
+        signal?: AbortSignal,
+        force: boolean = false
     ): Promise<number> {
+        this.failures = [];
+
         // Use batch mode for pdf-only with CLI converter
-        if (this.importMode === 'pdf-only' && this.pdfConverter.canBatchConvert()) {
-            return this.importNotesWithProgressBatch(notes, onProgress);
+        if (this.pdfConverter.canBatchConvert() && notes.every(note => this.getImportMode(note) === 'pdf-only')) {
+            return this.importNotesWithProgressBatch(notes, onProgress, signal, force);
         }
 
         // Fall back to single-file mode
-        return this.importNotesWithProgressSingle(notes, onProgress);
+        return this.importNotesWithProgressSingle(notes, onProgress, signal, force);
     }
 
     /**
@@ -147,23 +300,42 @@ export class NoteImporter {
      */
     private async importNotesWithProgressSingle(
         notes: SupernoteFile[],
-        onProgress: ProgressCallback
+        onProgress: ProgressCallback,
+        signal?: AbortSignal,
+        force: boolean = false
     ): Promise<number> {
         let successCount = 0;
         let failureCount = 0;
+        let unchangedCount = 0;
         const total = notes.length;
 
-        for (let i = 0; i < notes.length; i++) {
+        for (let i = 0; i < notes.length && !signal?.aborted; i++) {
             const note = notes[i];
-            onProgress(i + 1, total, successCount, failureCount, note.name);
+            onProgress(i, total, successCount, failureCount, `Downloading: ${note.name}`, unchangedCount, 'download');
 
             try {
-                await this.importSingleNote(note);
+                const noteData = await this.client.downloadNoteFile(note.path, signal);
+                onProgress(i + 1, total, successCount, failureCount, `Converting: ${note.name}`, unchangedCount, 'download');
+
+                if (!force && await this.markIfUnchanged(note, await sha256(noteData))) {
+                    unchangedCount++;
+                    onProgress(i + 1, total, successCount, failureCount, `Unchanged: ${note.name}`, unchangedCount, 'write');
+                    continue;
+                }
+
+                const result = await this.importSingleNote(note, noteData, signal);
+                if (!result.success) {
+                    throw new Error(result.error ?? 'Unknown error');
+                }
+                await this.recordResult(result);
                 successCount++;
             } catch (error) {
+                if (error instanceof CancelledError) break;
                 console.error(`Failed to import ${note.name}:`, error);
+                this.recordFailure(note, error);
                 failureCount++;
             }
+            onProgress(i + 1, total, successCount, failureCount, note.name, unchangedCount, 'write');
         }
 
         return successCount;
@@ -173,18 +345,21 @@ export class NoteImporter {
      * Import notes using batch mode (CLI only, pdf-only mode).
      *
      * Flow:
-     * 1. Download all .note files in parallel to a temp directory
+     * 1. Download all .note files in parallel to a temp directory (skipping unchanged notes)
      * 2. Run CLI converter once on the entire directory
      * 3. Copy all PDFs to the vault
      * 4. Clean up temp directories
      */
     private async importNotesWithProgressBatch(
         notes: SupernoteFile[],
-        onProgress: ProgressCallback
+        onProgress: ProgressCallback,
+        signal?: AbortSignal,
+        force: boolean = false
     ): Promise<number> {
         const total = notes.length;
         let successCount = 0;
         let failureCount = 0;
+        let unchangedCount = 0;
 
         if (total === 0) return 0;
 
@@ -198,31 +373,52 @@ export class NoteImporter {
 
         try {
             // Phase 1: Download all .note files in parallel
-            onProgress(0, total, 0, 0, `Downloading ${total} notes...`);
+            onProgress(0, total, 0, 0, `Downloading ${total} notes...`, 0, 'download');
             console.debug(`[importer] Phase 1: Downloading ${total} notes in parallel to ${inputTempDir}`);
 
             const downloadStartTime = Date.now();
             let downloadedCount = 0;
 
-            type DownloadResult = { note: SupernoteFile; relativePath: string } | { note: SupernoteFile; error: string };
+            type DownloadResult =
+                | { note: SupernoteFile; relativePath: string; contentHash: string; pageHashes?: string[] }
+                | { note: SupernoteFile; unchanged: true }
+                | { note: SupernoteFile; cancelled: true }
+                | { note: SupernoteFile; error: string };
 
             const downloadResults = await parallelLimit(notes, MAX_CONCURRENT_DOWNLOADS, async (note, _index) => {
+                // Notes not started before cancelling are left out
+                if (signal?.aborted) {
+                    return { note, cancelled: true } as DownloadResult;
+                }
+
                 try {
                     // Download the .note file
-                    const noteData = await this.client.downloadNoteFile(note.path);
+                    const noteData = await this.client.downloadNoteFile(note.path, signal);
+                    const contentHash = await sha256(noteData);
+                    downloadedCount++;
+
+                    // Unchanged notes are left out of the conversion
+                    if (!force && await this.markIfUnchanged(note, contentHash)) {
+                        unchangedCount++;
+                        onProgress(downloadedCount, total, 0, 0, `Unchanged: ${note.name}`, unchangedCount, 'download');
+                        return { note, unchanged: true } as DownloadResult;
+                    }
 
                     // Compute relative path (preserving folder structure)
                     const relativePath = this.getRelativeNotePath(note);
 
                     // Write to temp directory
                     await this.pdfConverter.writeNoteToTempDir(inputTempDir, relativePath, noteData);
+                    const { pageHashes } = await this.comparePages(note, noteData);
 
-                    downloadedCount++;
-                    onProgress(downloadedCount, total, 0, 0, `Downloaded ${downloadedCount}/${total}: ${note.name}`);
+                    onProgress(downloadedCount, total, 0, 0, `Downloaded ${downloadedCount}/${total}: ${note.name}`, unchangedCount, 'download');
                     console.debug(`[importer] Downloaded (${downloadedCount}/${total}): ${relativePath}`);
 
-                    return { note, relativePath } as DownloadResult;
+                    return { note, relativePath, contentHash, pageHashes } as DownloadResult;
                 } catch (error) {
+                    if (error instanceof CancelledError) {
+                        return { note, cancelled: true } as DownloadResult;
+                    }
                     const errorMsg = error instanceof Error ? error.message : String(error);
                     console.error(`[importer] Failed to download ${note.name}:`, error);
                     return { note, error: errorMsg } as DownloadResult;
@@ -232,44 +428,62 @@ export class NoteImporter {
             const downloadTimeMs = Date.now() - downloadStartTime;
 
             // Separate successful downloads from failures
-            const downloadedNotes: Array<{ note: SupernoteFile; relativePath: string }> = [];
+            const downloadedNotes: Array<{ note: SupernoteFile; relativePath: string; contentHash: string; pageHashes?: string[] }> = [];
             for (const result of downloadResults) {
                 if ('relativePath' in result) {
                     downloadedNotes.push(result);
-                } else {
+                } else if ('error' in result) {
+                    this.failures.push({ note: result.note, error: result.error });
                     failureCount++;
                 }
             }
 
-            console.debug(`[importer] Downloaded ${downloadedNotes.length}/${total} notes in ${downloadTimeMs}ms (${Math.round(downloadTimeMs / total)}ms avg per file)`);
+            if (signal?.aborted) {
+                console.debug('[importer] Batch import cancelled during download');
+                return 0;
+            }
+
+            console.debug(`[importer] Downloaded ${downloadedNotes.length + unchangedCount}/${total} notes in ${downloadTimeMs}ms (${Math.round(downloadTimeMs / total)}ms avg per file), ${unchangedCount} unchanged`);
 
             if (downloadedNotes.length === 0) {
-                console.error('[importer] No notes downloaded successfully');
+                if (unchangedCount > 0) {
+                    onProgress(total, total, 0, failureCount, 'All notes unchanged', unchangedCount);
+                } else {
+                    console.error('[importer] No notes downloaded successfully');
+                }
                 return 0;
             }
 
-            // Phase 2: Convert all notes at once
-            onProgress(downloadedNotes.length, total, 0, failureCount, 'Converting to PDF...');
+            // Phase 2: Convert all notes at once (a single CLI run, so no progress within it)
+            onProgress(0, downloadedNotes.length, 0, failureCount, 'Converting to PDF...', unchangedCount, 'convert');
             console.debug(`[importer] Phase 2: Converting ${downloadedNotes.length} notes`);
 
-            const conversionResult = await this.pdfConverter.convertDirectory(inputTempDir, outputTempDir);
+            const conversionResult = await this.pdfConverter.convertDirectory(inputTempDir, outputTempDir, signal);
+
+            if (signal?.aborted) {
+                console.debug('[importer] Batch import cancelled during conversion');
+                return 0;
+            }
 
             if (!conversionResult.success) {
                 console.error(`[importer] Batch conversion failed: ${conversionResult.error}`);
                 // Fall back to single-file mode
                 console.debug('[importer] Falling back to single-file mode');
-                return this.importNotesWithProgressSingle(notes, onProgress);
+                this.failures = [];
+                return this.importNotesWithProgressSingle(notes, onProgress, signal, force);
             }
 
+            onProgress(downloadedNotes.length, downloadedNotes.length, 0, failureCount, 'Converted to PDF', unchangedCount, 'convert');
+
             console.debug(`[importer] Conversion complete: ${conversionResult.fileCount} PDFs in ${conversionResult.conversionTimeMs}ms`);
 
             // Phase 3: Copy PDFs to vault
-            onProgress(downloadedNotes.length, total, 0, failureCount, 'Importing to vault...');
+            onProgress(0, downloadedNotes.length, 0, failureCount, 'Importing to vault...', unchangedCount, 'write');
             console.debug(`[importer] Phase 3: Copying PDFs to vault`);
 
-            for (let i = 0; i < downloadedNotes.length; i++) {
-                const { note, relativePath } = downloadedNotes[i];
-                onProgress(i + 1, total, successCount, failureCount, `Importing: ${note.name}`);
+            for (let i = 0; i < downloadedNotes.length && !signal?.aborted; i++) {
+                const { note, relativePath, contentHash, pageHashes } = downloadedNotes[i];
+                onProgress(i, downloadedNotes.length, successCount, failureCount, `Importing: ${note.name}`, unchangedCount, 'write');
 
                 try {
                     // Find the corresponding PDF
@@ -278,9 +492,7 @@ export class NoteImporter {
 
                     // Check if PDF was created
                     if (!fs.existsSync(pdfTempPath)) {
-                        console.error(`[importer] PDF not found: ${pdfTempPath}`);
-                        failureCount++;
-                        continue;
+                        throw new Error('The converter produced no PDF');
                     }
 
                     // Read PDF data
@@ -290,9 +502,9 @@ export class NoteImporter {
                         pdfBuffer.byteOffset + pdfBuffer.byteLength
                     );
 
-                    // Generate vault path
-                    const pdfFilename = generatePdfFilename(note, this.filenameTemplate);
-                    const pdfVaultPath = this.buildVaultPath(this.notesFolder, note, pdfFilename);
+                    // Generate vault path (or reuse the one recorded at the last sync)
+                    const pdfVaultPath = this.getRecordedPath(note, 'pdf')
+                        ?? this.buildNotePath(note, 'pdf');
 
                     // Ensure folder exists
                     const folderPath = pdfVaultPath.substring(0, pdfVaultPath.lastIndexOf('/'));
@@ -309,11 +521,14 @@ export class NoteImporter {
                     }
 
                     console.debug(`[importer] Imported: ${pdfVaultPath}`);
+                    await this.recordResult({ success: true, note, pdfPath: pdfVaultPath, contentHash, pageHashes });
                     successCount++;
                 } catch (error) {
                     console.error(`[importer] Failed to import ${note.name} to vault:`, error);
+                    this.recordFailure(note, error);
                     failureCount++;
                 }
+                onProgress(i + 1, downloadedNotes.length, successCount, failureCount, note.name, unchangedCount, 'write');
             }
 
             console.debug(`[importer] Batch import complete: ${successCount} succeeded, ${failureCount} failed`);
@@ -327,6 +542,221 @@ export class NoteImporter {
         }
     }
 
+    private recordFailure(note: SupernoteFile, error: unknown): void {
+        this.failures.push({ note, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    /**
+     * Record a successfully imported note in the sync manifest: the device file
+     * as synced and where it was written in the vault
+     */
+    private async recordResult(result: ImportResult): Promise<void> {
+        if (!this.manifest || !result.success) return;
+
+        const previous = this.manifest[result.note.id];
+
+        const attachmentFolder = this.getAttachmentFolder(result.note);
+        this.manifest[result.note.id] = {
+            devicePath: result.note.path,
+            size: result.note.size,
+            modifiedAt: result.note.modifiedAt,
+            contentHash: result.contentHash,
+            pageHashes: result.pageHashes,
+            vaultPaths: {
+                markdown: result.markdownPath,
+                pdf: result.pdfPath,
+                attachments: this.vault.getAbstractFileByPath(attachmentFolder) ? attachmentFolder : undefined,
+            },
+            converterVersion: result.pdfPath ? await this.getConverterVersion() : previous?.converterVersion,
+            outputFingerprint: await this.getOutputFingerprint(result.note),
+            lastSync: Date.now(),
+        };
+    }
+
+    /**
+     * Check whether a downloaded note matches the content recorded at its last sync,
+     * with its vault files still in place, its PDF made by the current converter
+     * and its files written with the current output settings. The manifest entry
+     * then takes the current device details, so the note no longer shows as updated.
+     */
+    private async markIfUnchanged(note: SupernoteFile, contentHash: string): Promise<boolean> {
+        const entry = this.manifest?.[note.id];
+        if (!entry || entry.contentHash !== contentHash || entry.devicePath !== note.path) {
+            return false;
+        }
+
+        // PDFs from another converter version are converted again
+        if (entry.vaultPaths.pdf && entry.converterVersion !== await this.getConverterVersion()) {
+            return false;
+        }
+        if (entry.outputFingerprint !== await this.getOutputFingerprint(note)) {
+            return false;
+        }
+
+        const primaryPath = this.getImportMode(note) === 'pdf-only' ? entry.vaultPaths.pdf : entry.vaultPaths.markdown;
+        if (!primaryPath || !(this.vault.getAbstractFileByPath(primaryPath) instanceof TFile)) {
+            return false;
+        }
+
+        this.manifest![note.id] = { ...entry, size: note.size, modifiedAt: note.modifiedAt };
+        return true;
+    }
+
+    /**
+     * Hash of the settings that shape a note's vault files: its import mode and,
+     * for markdown, the export options, folder rule tags and note template
+     */
+    private async getOutputFingerprint(note: SupernoteFile): Promise<string> {
+        const importMode = this.getImportMode(note);
+        const settings: unknown[] = [importMode];
+        if (importMode !== 'pdf-only') {
+            await this.loadTemplate();
+            const options = this.exportOptionsFor(note);
+            settings.push(
+                options.includeThumbnail,
+                options.attachPdf,
+                options.includeTranscription,
+                options.includeVectorPages,
+                options.extraTags,
+                this.template ?? ''
+            );
+        }
+        return sha256(new TextEncoder().encode(JSON.stringify(settings)).buffer);
+    }
+
+    /**
+     * Vault path recorded for a note at its last sync, if the file still exists.
+     * Keeps updates writing to the same file when settings that shape paths change.
+     */
+    private getRecordedPath(note: SupernoteFile, key: 'markdown' | 'pdf'): string | undefined {
+        const recorded = this.manifest?.[note.id]?.vaultPaths[key];
+        return recorded && this.vault.getAbstractFileByPath(recorded) instanceof TFile ? recorded : undefined;
+    }
+
+    /**
+     * Vault paths a note is written to with the current settings
+     */
+    getVaultPaths(note: SupernoteFile): NoteVaultPaths {
+        const paths: NoteVaultPaths = { attachments: this.getAttachmentFolder(note) };
+        const importMode = this.getImportMode(note);
+
+        if (importMode === 'pdf-only') {
+            paths.pdf = this.buildNotePath(note, 'pdf');
+            return paths;
+        }
+
+        paths.markdown = this.buildNotePath(note, 'md');
+        if (importMode === 'markdown-with-pdf') {
+            paths.pdf = this.buildVaultPath(this.pdfFolder, note, generatePdfFilename(note, this.ruleFor(note).filenameTemplate));
+        }
+        return paths;
+    }
+
+    /**
+     * Move the vault files of a note renamed or moved on the device to match its new path.
+     * Files are renamed through the file manager so links to them are rewritten; a file
+     * whose new path is already taken stays where it is.
+     * @returns The manifest entry for the note's new location
+     */
+    async moveNote(note: SupernoteFile, previous: ManifestEntry, fileManager: FileManager): Promise<ManifestEntry> {
+        const targets = this.getVaultPaths(note);
+        const vaultPaths: NoteVaultPaths = {};
+
+        for (const key of ['pdf', 'attachments', 'markdown'] as const) {
+            const currentPath = previous.vaultPaths[key];
+            const file = currentPath ? this.vault.getAbstractFileByPath(currentPath) : null;
+            if (!currentPath || !file) continue;
+
+            const targetPath = targets[key];
+            if (!targetPath || targetPath === currentPath) {
+                vaultPaths[key] = currentPath;
+                continue;
+            }
+            if (this.vault.getAbstractFileByPath(targetPath)) {
+                console.warn(`[importer] Not moving ${currentPath}: ${targetPath} already exists`);
+                vaultPaths[key] = currentPath;
+                continue;
+            }
+
+            const folderPath = targetPath.substring(0, targetPath.lastIndexOf('/'));
+            if (folderPath) {
+                await this.ensureFolderExists(folderPath);
+            }
+            await fileManager.renameFile(file, targetPath);
+            vaultPaths[key] = targetPath;
+            console.debug(`[importer] Moved ${currentPath} -> ${targetPath}`);
+        }
+
+        // Frontmatter paths are plain strings, which link updates don't cover
+        const markdown = vaultPaths.markdown ? this.vault.getAbstractFileByPath(vaultPaths.markdown) : null;
+        if (markdown instanceof TFile) {
+            const fields: Record<string, unknown> = { source: note.path };
+            if (vaultPaths.pdf) {
+                fields.pdf_attachment = vaultPaths.pdf;
+            }
+            await this.vault.process(markdown, content =>
+                updateFrontmatter(content, fields, true, Object.keys(fields))
+            );
+        }
+
+        return { ...previous, devicePath: note.path, vaultPaths, lastSync: Date.now() };
+    }
+
+    /**
+     * Apply the deletion policy to the vault files of a note deleted on the device.
+     * Archived files keep their vault path below the archive folder.
+     * @returns True when the note was handled and can be dropped from the manifest
+     */
+    async handleDeletedNote(
+        entry: ManifestEntry,
+        policy: DeletionPolicy,
+        archiveFolder: string,
+        fileManager: FileManager
+    ): Promise<boolean> {
+        if (policy === 'keep') {
+            return false;
+        }
+
+        if (policy === 'mark') {
+            // Standalone PDFs have no frontmatter to mark
+            const markdown = entry.vaultPaths.markdown ? this.vault.getAbstractFileByPath(entry.vaultPaths.markdown) : null;
+            if (!(markdown instanceof TFile)) {
+                return false;
+            }
+            await this.vault.process(markdown, content =>
+                updateFrontmatter(content, { supernote_deleted: true }, true, ['supernote_deleted'])
+            );
+            return true;
+        }
+
+        const normalizedArchive = archiveFolder.startsWith('/') ? archiveFolder.slice(1) : archiveFolder;
+
+        for (const key of ['markdown', 'pdf', 'attachments'] as const) {
+            const vaultPath = entry.vaultPaths[key];
+            const file = vaultPath ? this.vault.getAbstractFileByPath(vaultPath) : null;
+            if (!vaultPath || !file) continue;
+
+            if (policy === 'trash') {
+                await fileManager.trashFile(file);
+                continue;
+            }
+
+            const archivePath = normalizePath(`${normalizedArchive}/${vaultPath}`);
+            if (this.vault.getAbstractFileByPath(archivePath)) {
+                console.warn(`[importer] Not archiving ${vaultPath}: ${archivePath} already exists`);
+                continue;
+            }
+
+            const folderPath = archivePath.substring(0, archivePath.lastIndexOf('/'));
+            if (folderPath) {
+                await this.ensureFolderExists(folderPath);
+            }
+            await fileManager.renameFile(file, archivePath);
+        }
+
+        return true;
+    }
+
     /**
      * Get the relative path for a note file (e.g., "Work/Projects/meeting.note")
      */
@@ -347,27 +777,31 @@ export class NoteImporter {
     /**
      * Import a single note based on import mode
      */
-    async importSingleNote(note: SupernoteFile): Promise<ImportResult> {
-        switch (this.importMode) {
+    async importSingleNote(note: SupernoteFile, noteData?: ArrayBuffer, signal?: AbortSignal): Promise<ImportResult> {
+        switch (this.getImportMode(note)) {
             case 'pdf-only':
-                return this.importPdfOnly(note);
+                return this.importPdfOnly(note, noteData, signal);
             case 'markdown-with-pdf':
-                return this.importMarkdownWithPdf(note);
+                return this.importMarkdownWithPdf(note, noteData, signal);
+            case 'markdown-with-images':
             case 'markdown-only':
-                return this.importMarkdownOnly(note);
+                return this.importMarkdownOnly(note, noteData, signal);
             default:
-                return this.importPdfOnly(note);
+                return this.importPdfOnly(note, noteData, signal);
         }
     }
 
     /**
-     * Get the relative folder path from a Supernote note path.
+     * Get the relative folder path from a Supernote note path, below the device
+     * folder of its rule (/Note for the general settings).
      * E.g., "/Note/Work/Projects/meeting.note" -> "Work/Projects"
      * E.g., "/Note/signature.note" -> "" (empty - file is in root)
      */
-    private getRelativeFolderPath(notePath: string): string {
-        // Remove leading /Note/ or /Note prefix
-        const withoutNotePrefix = notePath.replace(/^\/Note\/?/, '');
+    private getRelativeFolderPath(notePath: string, deviceFolder: string): string {
+        // Remove the device folder prefix (or the leading /Note/ for paths outside it)
+        const withoutNotePrefix = deviceFolder && notePath.startsWith(`${deviceFolder}/`)
+            ? notePath.slice(deviceFolder.length + 1)
+            : notePath.replace(/^\/Note\/?/, '');
 
         // Find the last slash to separate directory from filename
         const lastSlashIndex = withoutNotePrefix.lastIndexOf('/');
@@ -390,7 +824,7 @@ export class NoteImporter {
             : baseFolder;
 
         if (this.preserveFolderStructure) {
-            const relativePath = this.getRelativeFolderPath(note.path);
+            const relativePath = this.getRelativeFolderPath(note.path, this.ruleFor(note).deviceFolder);
             if (relativePath) {
                 return normalizePath(`${normalizedBase}/${relativePath}/${filename}`);
             }
@@ -399,23 +833,36 @@ export class NoteImporter {
         return normalizePath(`${normalizedBase}/${filename}`);
     }
 
+    /**
+     * Build the vault path of a note's markdown or standalone PDF, in the folder of its rule
+     */
+    private buildNotePath(note: SupernoteFile, extension: 'md' | 'pdf'): string {
+        const { folder, filenameTemplate } = this.ruleFor(note);
+        const filename = extension === 'pdf'
+            ? generatePdfFilename(note, filenameTemplate)
+            : generateFilename(note, filenameTemplate);
+        return this.buildVaultPath(folder, note, filename);
+    }
+
     /**
      * Import just the PDF file (simplest mode)
      */
-    private async importPdfOnly(note: SupernoteFile): Promise<ImportResult> {
+    private async importPdfOnly(note: SupernoteFile, noteData?: ArrayBuffer, signal?: AbortSignal): Promise<ImportResult> {
         try {
-            // Download and convert to PDF
-            const noteData = await this.client.downloadNoteFile(note.path);
-            const conversionResult = await this.pdfConverter.convert(noteData, note.id);
+            // Download (unless already downloaded) and convert to PDF
+            noteData = noteData ?? await this.client.downloadNoteFile(note.path, signal);
+            const contentHash = await sha256(noteData);
+            const { pageHashes, changedPages } = await this.comparePages(note, noteData);
 
+            // Generate PDF filename and full vault path (or reuse the one recorded at the last sync)
+            const pdfVaultPath = this.getRecordedPath(note, 'pdf')
+                ?? this.buildNotePath(note, 'pdf');
+
+            const conversionResult = await this.pdfConverter.convert(noteData, note.id, this.getPdfBuildOptions(note, pdfVaultPath));
             if (!conversionResult.success || !conversionResult.pdfData) {
                 throw new Error(`PDF conversion failed: ${conversionResult.error ?? 'Unknown error'}`);
             }
 
-            // Generate PDF filename and full vault path
-            const pdfFilename = generatePdfFilename(note, this.filenameTemplate);
-            const pdfVaultPath = this.buildVaultPath(this.notesFolder, note, pdfFilename);
-
             // Ensure folder exists (including any subfolders)
             const folderPath = pdfVaultPath.substring(0, pdfVaultPath.lastIndexOf('/'));
             if (folderPath) {
@@ -436,6 +883,9 @@ export class NoteImporter {
                 success: true,
                 note,
                 pdfPath: pdfVaultPath,
+                contentHash,
+                pageHashes,
+                changedPages,
             };
         } catch (error) {
             return {
@@ -449,27 +899,38 @@ export class NoteImporter {
     /**
      * Import markdown file with PDF attachment (original mode)
      */
-    private async importMarkdownWithPdf(note: SupernoteFile): Promise<ImportResult> {
+    private async importMarkdownWithPdf(note: SupernoteFile, noteData?: ArrayBuffer, signal?: AbortSignal): Promise<ImportResult> {
         try {
             let pdfVaultPath: string | undefined;
-            let thumbnailBase64: string | undefined;
+            let thumbnailPath: string | undefined;
+
+            await this.loadTemplate();
+
+            // Download once (unless already downloaded) - the data is used for content extraction and PDF conversion
+            noteData = noteData ?? await this.client.downloadNoteFile(note.path, signal);
+            const contentHash = await sha256(noteData);
+            const { pageHashes, changedPages } = await this.comparePages(note, noteData);
+            const content = this.extractContent(note, noteData);
+            const enrichedNote = this.withContentInfo(note, content);
 
             // Handle PDF attachment
             if (this.exportOptions.attachPdf) {
-                pdfVaultPath = await this.handlePdfAttachment(note);
+                pdfVaultPath = await this.handlePdfAttachment(enrichedNote, noteData, signal);
             }
 
-            // Get thumbnail if enabled
+            // Write thumbnail if enabled
             if (this.exportOptions.includeThumbnail) {
-                thumbnailBase64 = this.client.getThumbnail(note.id) ?? undefined;
+                thumbnailPath = await this.writeThumbnail(enrichedNote, noteData);
             }
 
+            const pageImages = await this.writePageImages(enrichedNote, noteData);
+
             // Generate markdown content
-            const content = generateMarkdown(note, this.exportOptions, pdfVaultPath, thumbnailBase64);
+            const markdown = generateMarkdown(enrichedNote, this.exportOptionsFor(note), pdfVaultPath, thumbnailPath, content, pageImages, this.template);
 
-            // Generate filename and full vault path
-            const filename = generateFilename(note, this.filenameTemplate);
-            const filepath = this.buildVaultPath(this.notesFolder, note, filename);
+            // Generate filename and full vault path (or reuse the one recorded at the last sync)
+            const filepath = this.getRecordedPath(note, 'markdown')
+                ?? this.buildNotePath(enrichedNote, 'md');
 
             // Ensure folder exists
             const folderPath = filepath.substring(0, filepath.lastIndexOf('/'));
@@ -480,9 +941,9 @@ export class NoteImporter {
             // Write file
             const existingFile = this.vault.getAbstractFileByPath(filepath);
             if (existingFile instanceof TFile) {
-                await this.vault.modify(existingFile, content);
+                await this.vault.modify(existingFile, markdown);
             } else {
-                await this.vault.create(filepath, content);
+                await this.vault.create(filepath, markdown);
             }
 
             return {
@@ -490,6 +951,9 @@ export class NoteImporter {
                 note,
                 markdownPath: filepath,
                 pdfPath: pdfVaultPath,
+                contentHash,
+                pageHashes,
+                changedPages,
             };
         } catch (error) {
             return {
@@ -501,24 +965,35 @@ export class NoteImporter {
     }
 
     /**
-     * Import just the markdown file without PDF
+     * Import just the markdown file without PDF (page images are embedded in markdown-with-images mode)
      */
-    private async importMarkdownOnly(note: SupernoteFile): Promise<ImportResult> {
+    private async importMarkdownOnly(note: SupernoteFile, noteData?: ArrayBuffer, signal?: AbortSignal): Promise<ImportResult> {
         try {
-            let thumbnailBase64: string | undefined;
+            let thumbnailPath: string | undefined;
 
-            // Get thumbnail if enabled
+            await this.loadTemplate();
+
+            // Download the note for content extraction, unless already downloaded (no PDF conversion)
+            noteData = noteData ?? await this.client.downloadNoteFile(note.path, signal);
+            const contentHash = await sha256(noteData);
+            const { pageHashes, changedPages } = await this.comparePages(note, noteData);
+            const content = this.extractContent(note, noteData);
+            const enrichedNote = this.withContentInfo(note, content);
+
+            // Write thumbnail if enabled
             if (this.exportOptions.includeThumbnail) {
-                thumbnailBase64 = this.client.getThumbnail(note.id) ?? undefined;
+                thumbnailPath = await this.writeThumbnail(enrichedNote, noteData);
             }
 
+            const pageImages = await this.writePageImages(enrichedNote, noteData);
+
             // Generate markdown content (no PDF path)
-            const optionsWithoutPdf = { ...this.exportOptions, attachPdf: false };
-            const content = generateMarkdown(note, optionsWithoutPdf, undefined, thumbnailBase64);
+            const optionsWithoutPdf = { ...this.exportOptionsFor(note), attachPdf: false };
+            const markdown = generateMarkdown(enrichedNote, optionsWithoutPdf, undefined, thumbnailPath, content, pageImages, this.template);
 
-            // Generate filename and full vault path
-            const filename = generateFilename(note, this.filenameTemplate);
-            const filepath = this.buildVaultPath(this.notesFolder, note, filename);
+            // Generate filename and full vault path (or reuse the one recorded at the last sync)
+            const filepath = this.getRecordedPath(note, 'markdown')
+                ?? this.buildNotePath(enrichedNote, 'md');
 
             // Ensure folder exists
             const folderPath = filepath.substring(0, filepath.lastIndexOf('/'));
@@ -529,15 +1004,18 @@ export class NoteImporter {
             // Write file
             const existingFile = this.vault.getAbstractFileByPath(filepath);
             if (existingFile instanceof TFile) {
-                await this.vault.modify(existingFile, content);
+                await this.vault.modify(existingFile, markdown);
             } else {
-                await this.vault.create(filepath, content);
+                await this.vault.create(filepath, markdown);
             }
 
             return {
                 success: true,
                 note,
                 markdownPath: filepath,
+                contentHash,
+                pageHashes,
+                changedPages,
             };
         } catch (error) {
             return {
@@ -548,37 +1026,188 @@ export class NoteImporter {
         }
     }
 
+    /**
+     * Extract structured content (transcription, etc.) from downloaded note data.
+     * Content only enriches the markdown, so parse failures are logged rather than thrown.
+     */
+    private extractContent(note: SupernoteFile, noteData: ArrayBuffer): NoteContent | undefined {
+        try {
+            return this.resolveLinks(this.pdfConverter.getContent(noteData));
+        } catch (error) {
+            console.warn(`[importer] Could not extract content from ${note.name}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Point note links at the vault notes imported from their targets, when present
+     */
+    private resolveLinks(content: NoteContent): NoteContent {
+        const links = content.links.map(link => {
+            if (link.type !== 'note' || !link.targetPath) {
+                return link;
+            }
+            const target = link.targetPath.toLowerCase();
+            const local = this.localNotes.find(n => n.sourcePath.toLowerCase() === target && n.path.endsWith('.md'));
+            return local ? { ...link, resolvedPath: local.path } : link;
+        });
+        return { ...content, links };
+    }
+
+    /**
+     * Fingerprint each page and compare with the fingerprints recorded at the last sync.
+     * Change detection only saves work, so parse failures are logged rather than thrown.
+     * @returns The page hashes, and the 1-based pages that changed (all pages when none were recorded)
+     */
+    private async comparePages(note: SupernoteFile, noteData: ArrayBuffer): Promise<{ pageHashes?: string[]; changedPages?: number[] }> {
+        let pageHashes: string[];
+        try {
+            pageHashes = await this.pdfConverter.getPageHashes(noteData);
+        } catch (error) {
+            console.warn(`[importer] Could not fingerprint pages of ${note.name}:`, error);
+            return {};
+        }
+
+        const previous = this.manifest?.[note.id]?.pageHashes;
+        const changedPages: number[] = [];
+        pageHashes.forEach((hash, index) => {
+            if (!previous || previous[index] !== hash) {
+                changedPages.push(index + 1);
+            }
+        });
+
+        return { pageHashes, changedPages };
+    }
+
+    /**
+     * Compute what an update would change in a note's vault file, without writing anything.
+     * Uses the same content and attachment paths as updateSingleNote.
+     * @param locallyModified Whether the file was edited in the vault since its last sync
+     */
+    async previewUpdate(note: SupernoteFile, existingPath: string, locallyModified: boolean): Promise<UpdatePreview> {
+        const noteData = await this.client.downloadNoteFile(note.path);
+        const { changedPages } = await this.comparePages(note, noteData);
+
+        // Standalone PDFs are replaced as a whole
+        if (this.getImportMode(note) === 'pdf-only' || !existingPath.endsWith('.md')) {
+            return {
+                hasChanges: true,
+                frontmatterChanges: [],
+                contentChanged: true,
+                customFieldsPreserved: [],
+                changedPages,
+            };
+        }
+
+        const file = this.vault.getAbstractFileByPath(existingPath);
+        if (!(file instanceof TFile)) {
+            throw new Error(`File not found: ${existingPath}`);
+        }
+
+        const existingContent = await this.vault.read(file);
+        const existingFrontmatter = parseFrontmatter(existingContent);
+        await this.loadTemplate();
+        const content = this.extractContent(note, noteData);
+        const enrichedNote = this.withContentInfo(note, content);
+
+        let pdfVaultPath = existingFrontmatter.pdf_attachment as string | undefined;
+        if (this.exportOptions.attachPdf && this.getImportMode(note) === 'markdown-with-pdf' && (!pdfVaultPath || this.shouldUpdatePdf())) {
+            pdfVaultPath = this.getRecordedPath(note, 'pdf')
+                ?? this.buildVaultPath(this.pdfFolder, enrichedNote, generatePdfFilename(enrichedNote, this.ruleFor(note).filenameTemplate));
+        }
+        const thumbnailPath = this.exportOptions.includeThumbnail ? this.getThumbnailPath(enrichedNote) : undefined;
+        const pageImages = this.getPlannedPageImages(enrichedNote);
+
+        const regenerated = generateMarkdown(enrichedNote, this.exportOptionsFor(note), pdfVaultPath, thumbnailPath, content, pageImages, this.template);
+        const newContent = this.updateOptions
+            ? this.applySelectiveUpdate(existingContent, enrichedNote, pdfVaultPath, thumbnailPath, content, pageImages)
+            : this.keepUserSections(existingContent, regenerated);
+
+        // Frontmatter fields with their true old and new values
+        const newFrontmatter = parseFrontmatter(newContent);
+        const frontmatterChanges: UpdatePreview['frontmatterChanges'] = [];
+        const fields = Array.from(new Set([...Object.keys(existingFrontmatter), ...Object.keys(newFrontmatter)]));
+        for (const field of fields) {
+            if (JSON.stringify(existingFrontmatter[field]) !== JSON.stringify(newFrontmatter[field])) {
+                frontmatterChanges.push({ field, oldValue: existingFrontmatter[field], newValue: newFrontmatter[field] });
+            }
+        }
+
+        // Fields the plugin doesn't write are the user's
+        const generatedFields = Object.keys(parseFrontmatter(regenerated));
+        const customFields = Object.keys(existingFrontmatter).filter(field => !generatedFields.includes(field));
+        const customFieldsPreserved = customFields.filter(field =>
+            JSON.stringify(existingFrontmatter[field]) === JSON.stringify(newFrontmatter[field])
+        );
+
+        // Tags added in the vault are lost unless merged
+        const newTags = Array.isArray(newFrontmatter.tags) ? newFrontmatter.tags as unknown[] : [];
+        const tagsDropped = Array.isArray(existingFrontmatter.tags)
+            && (existingFrontmatter.tags as unknown[]).some(tag => !newTags.includes(tag));
+
+        const oldBody = getBody(existingContent);
+        const newBody = getBody(newContent);
+        const contentChanged = oldBody !== newBody;
+
+        return {
+            hasChanges: contentChanged || frontmatterChanges.length > 0,
+            frontmatterChanges,
+            contentChanged,
+            bodyDiff: contentChanged ? diffLines(oldBody, newBody) : undefined,
+            customFieldsPreserved,
+            overwritesLocalEdits: locallyModified
+                && (contentChanged || tagsDropped || customFieldsPreserved.length < customFields.length),
+            changedPages,
+        };
+    }
+
+    /**
+     * Fill in note details that are only known after parsing (the listing has no page count)
+     */
+    private withContentInfo(note: SupernoteFile, content?: NoteContent): SupernoteFile {
+        if (!content || note.pageCount !== undefined) {
+            return note;
+        }
+        return { ...note, pageCount: content.pageCount };
+    }
+
     /**
      * Update multiple notes with progress tracking
      */
     async updateNotesWithProgress(
         notes: SupernoteFile[],
         localPaths: Map<string, string>, // noteId -> vault path
-        onProgress: ProgressCallback
+        onProgress: ProgressCallback,
+        signal?: AbortSignal
     ): Promise<number> {
         let successCount = 0;
         let failureCount = 0;
         const total = notes.length;
+        this.failures = [];
 
-        for (let i = 0; i < notes.length; i++) {
+        for (let i = 0; i < notes.length && !signal?.aborted; i++) {
             const note = notes[i];
             const localPath = localPaths.get(note.id);
 
-            onProgress(i + 1, total, successCount, failureCount, note.name);
-
-            if (!localPath) {
-                console.warn(`No local path found for note ${note.id}, skipping update`);
-                failureCount++;
-                continue;
-            }
+            onProgress(i, total, successCount, failureCount, note.name, 0, 'write');
 
             try {
-                await this.updateSingleNote(note, localPath);
+                if (!localPath) {
+                    throw new Error('No local file found for this note');
+                }
+
+                const result = await this.updateSingleNote(note, localPath, signal);
+                if (!result.success) {
+                    throw new Error(result.error ?? 'Unknown error');
+                }
+                await this.recordResult(result);
                 successCount++;
             } catch (error) {
                 console.error(`Failed to update ${note.name}:`, error);
+                this.recordFailure(note, error);
                 failureCount++;
             }
+            onProgress(i + 1, total, successCount, failureCount, note.name, 0, 'write');
         }
 
         return successCount;
@@ -587,10 +1216,10 @@ export class NoteImporter {
     /**
      * Update a single note with selective update support
      */
-    async updateSingleNote(note: SupernoteFile, existingPath: string): Promise<ImportResult> {
+    async updateSingleNote(note: SupernoteFile, existingPath: string, signal?: AbortSignal): Promise<ImportResult> {
         // For PDF-only mode, just re-import the PDF
-        if (this.importMode === 'pdf-only') {
-            return this.importPdfOnly(note);
+        if (this.getImportMode(note) === 'pdf-only') {
+            return this.importPdfOnly(note, undefined, signal);
         }
 
         try {
@@ -601,34 +1230,51 @@ export class NoteImporter {
 
             const existingContent = await this.vault.read(file);
             const existingFrontmatter = parseFrontmatter(existingContent);
+            await this.loadTemplate();
+
+            // Download once - the data is used for content extraction and PDF conversion
+            const noteData = await this.client.downloadNoteFile(note.path, signal);
+            const contentHash = await sha256(noteData);
+            const { pageHashes, changedPages } = await this.comparePages(note, noteData);
+            const content = this.extractContent(note, noteData);
+            const enrichedNote = this.withContentInfo(note, content);
 
             let newContent: string;
             let pdfVaultPath = existingFrontmatter.pdf_attachment as string | undefined;
 
             // Handle PDF update if needed
-            if (this.exportOptions.attachPdf && this.importMode === 'markdown-with-pdf') {
+            if (this.exportOptions.attachPdf && this.getImportMode(note) === 'markdown-with-pdf') {
                 if (!pdfVaultPath || this.shouldUpdatePdf()) {
-                    pdfVaultPath = await this.handlePdfAttachment(note);
+                    pdfVaultPath = await this.handlePdfAttachment(enrichedNote, noteData, signal);
                 }
             }
 
-            // Get thumbnail if needed
-            let thumbnailBase64: string | undefined;
+            // Write thumbnail if needed
+            let thumbnailPath: string | undefined;
             if (this.exportOptions.includeThumbnail) {
-                thumbnailBase64 = this.client.getThumbnail(note.id) ?? undefined;
+                thumbnailPath = await this.writeThumbnail(enrichedNote, noteData);
             }
 
+            // Page images only matter when the body is regenerated
+            const bodyChanges = !this.updateOptions || this.updateOptions.mode === 'all' || this.updateOptions.mode === 'content-only';
+            const pageImages = bodyChanges ? await this.writePageImages(enrichedNote, noteData, changedPages) : undefined;
+
             // Apply update based on mode
             if (this.updateOptions) {
                 newContent = this.applySelectiveUpdate(
                     existingContent,
-                    note,
+                    enrichedNote,
                     pdfVaultPath,
-                    thumbnailBase64
+                    thumbnailPath,
+                    content,
+                    pageImages
                 );
             } else {
-                // Full update - regenerate everything
-                newContent = generateMarkdown(note, this.exportOptions, pdfVaultPath, thumbnailBase64);
+                // Full update - regenerate everything but the user's sections
+                newContent = this.keepUserSections(
+                    existingContent,
+                    generateMarkdown(enrichedNote, this.exportOptionsFor(note), pdfVaultPath, thumbnailPath, content, pageImages, this.template)
+                );
             }
 
             // Write updated content
@@ -639,6 +1285,9 @@ export class NoteImporter {
                 note,
                 markdownPath: existingPath,
                 pdfPath: pdfVaultPath,
+                contentHash,
+                pageHashes,
+                changedPages,
             };
         } catch (error) {
             return {
@@ -656,13 +1305,15 @@ export class NoteImporter {
         existingContent: string,
         note: SupernoteFile,
         pdfVaultPath?: string,
-        _thumbnailBase64?: string
+        thumbnailPath?: string,
+        content?: NoteContent,
+        pageImages?: PageImage[]
     ): string {
         if (!this.updateOptions) {
             return existingContent;
         }
 
-        const { mode, specificFields, preserveCustomFields } = this.updateOptions;
+        const { mode, specificFields, preserveCustomFields, arrayMergeStrategy } = this.updateOptions;
 
         // Build new frontmatter values
         const newFrontmatter: Record<string, unknown> = {
@@ -672,56 +1323,92 @@ export class NoteImporter {
             created: new Date(note.createdAt).toISOString().split('T')[0],
             modified: new Date(note.modifiedAt).toISOString().split('T')[0],
             pages: note.pageCount,
-            size: `${Math.round(note.size / 1024)} KB`,
+            size: formatFileSize(note.size),
+            tags: generateTags(content, this.ruleFor(note).tags),
         };
 
         if (pdfVaultPath) {
             newFrontmatter.pdf_attachment = pdfVaultPath;
         }
 
+        const keywords = formatKeywords(content);
+        if (keywords.length > 0) {
+            newFrontmatter.keywords = keywords;
+        }
+
         switch (mode) {
             case 'frontmatter-only':
                 // Update all frontmatter fields, keep body
-                return updateFrontmatter(existingContent, newFrontmatter, preserveCustomFields);
+                return updateFrontmatter(existingContent, newFrontmatter, preserveCustomFields, undefined, arrayMergeStrategy);
 
             case 'content-only':
-                // Keep frontmatter, update body
-                // For now, we don't regenerate body separately
-                return existingContent;
+                // Keep frontmatter, regenerate the managed region of the body
+                return replaceBody(
+                    existingContent,
+                    mergeManagedBody(
+                        getBody(existingContent),
+                        generateBody(note, this.exportOptionsFor(note, this.updateOptions.exportOptions), pdfVaultPath, thumbnailPath, content, pageImages, this.template)
+                    )
+                );
 
             case 'specific-frontmatter':
                 // Update only specified fields
-                return updateFrontmatter(existingContent, newFrontmatter, preserveCustomFields, specificFields);
+                return updateFrontmatter(existingContent, newFrontmatter, preserveCustomFields, specificFields, arrayMergeStrategy);
 
             case 'all':
-            default:
+            default: {
                 // Full update
-                return generateMarkdown(
+                const regenerated = this.keepUserSections(existingContent, generateMarkdown(
                     note,
-                    this.updateOptions.exportOptions,
-                    pdfVaultPath
-                );
+                    this.exportOptionsFor(note, this.updateOptions.exportOptions),
+                    pdfVaultPath,
+                    thumbnailPath,
+                    content,
+                    pageImages,
+                    this.template
+                ));
+                if (arrayMergeStrategy.tags !== 'merge') {
+                    return regenerated;
+                }
+
+                // Carry over tags the user added in the vault
+                const existingTags = parseFrontmatter(existingContent).tags;
+                return updateFrontmatter(regenerated, { tags: existingTags }, true, ['tags'], arrayMergeStrategy);
+            }
+        }
+    }
+
+    /**
+     * Read the note template from the vault, once per importer
+     */
+    private async loadTemplate(): Promise<void> {
+        if (!this.templatePath || this.template !== undefined) return;
+
+        const file = this.vault.getAbstractFileByPath(normalizePath(this.templatePath));
+        if (!(file instanceof TFile)) {
+            throw new Error(`Template not found: ${this.templatePath}`);
         }
+        this.template = await this.vault.cachedRead(file);
     }
 
     /**
      * Handle PDF attachment - download .note file and convert to PDF locally
      */
-    private async handlePdfAttachment(note: SupernoteFile): Promise<string> {
-        // Step 1: Download the .note file from the Supernote device
-        const noteData = await this.client.downloadNoteFile(note.path);
+    private async handlePdfAttachment(note: SupernoteFile, noteData?: ArrayBuffer, signal?: AbortSignal): Promise<string> {
+        // Step 1: Download the .note file from the Supernote device (unless already downloaded)
+        noteData = noteData ?? await this.client.downloadNoteFile(note.path, signal);
+
+        // Step 2: Generate PDF filename and full vault path (or reuse the one recorded at the last sync)
+        const pdfVaultPath = this.getRecordedPath(note, 'pdf')
+            ?? this.buildVaultPath(this.pdfFolder, note, generatePdfFilename(note, this.ruleFor(note).filenameTemplate));
 
-        // Step 2: Convert to PDF using built-in converter
-        const conversionResult = await this.pdfConverter.convert(noteData, note.id);
+        // Step 3: Convert to PDF using built-in converter
+        const conversionResult = await this.pdfConverter.convert(noteData, note.id, this.getPdfBuildOptions(note, pdfVaultPath));
 
         if (!conversionResult.success || !conversionResult.pdfData) {
             throw new Error(`PDF conversion failed: ${conversionResult.error ?? 'Unknown error'}`);
         }
 
-        // Step 3: Generate PDF filename and full vault path
-        const pdfFilename = generatePdfFilename(note, this.filenameTemplate);
-        const pdfVaultPath = this.buildVaultPath(this.pdfFolder, note, pdfFilename);
-
         // Step 4: Ensure PDF folder exists (including any subfolders)
         const folderPath = pdfVaultPath.substring(0, pdfVaultPath.lastIndexOf('/'));
         if (folderPath) {
@@ -741,6 +1428,219 @@ export class NoteImporter {
         return pdfVaultPath;
     }
 
+    /**
+     * PDF options for a note: where its PDF goes, and where the PDFs of the notes it
+     * links to are. Links to notes without a PDF in the manifest are left out.
+     */
+    private getPdfBuildOptions(note: SupernoteFile, pdfVaultPath: string): PdfBuildOptions {
+        const manifest = this.manifest ?? {};
+        return {
+            pdfPath: pdfVaultPath,
+            pageCache: this.pageCache,
+            resolveNotePdf: (devicePath) => {
+                const target = devicePath.toLowerCase();
+                if (target === note.path.toLowerCase()) return pdfVaultPath;
+                const id = Object.keys(manifest).find(key => manifest[key].devicePath.toLowerCase() === target);
+                return id ? manifest[id].vaultPaths.pdf : undefined;
+            },
+        };
+    }
+
+    /**
+     * Write page images to the attachments folder (<attachments>/<note>/page-001.png):
+     * PNGs in markdown-with-images mode, otherwise SVGs when vector pages are enabled.
+     * Pages whose pen strokes can't be decoded get a PNG instead of an SVG. When the
+     * changed pages are known, the other pages keep their existing image files and
+     * are not rendered again.
+     */
+    private async writePageImages(note: SupernoteFile, noteData: ArrayBuffer, changedPages?: number[]): Promise<PageImage[]> {
+        const extension = this.getImportMode(note) === 'markdown-with-images' ? 'png' : 'svg';
+        if (extension === 'svg' && !this.exportOptions.includeVectorPages) {
+            return [];
+        }
+
+        // Unchanged pages whose image is still in the vault are reused
+        const reused = new Map<number, string>();
+        let pagesToRender: number[] | undefined;
+        if (changedPages && note.pageCount !== undefined) {
+            pagesToRender = [];
+            for (let pageNumber = 1; pageNumber <= note.pageCount; pageNumber++) {
+                // Either image type, since SVG pages may have fallen back to PNG
+                const imagePath = [extension, 'png']
+                    .map(type => this.getPageImagePath(note, pageNumber, type))
+                    .find(path => this.vault.getAbstractFileByPath(path) instanceof TFile);
+                if (!changedPages.includes(pageNumber) && imagePath) {
+                    reused.set(pageNumber, imagePath);
+                } else {
+                    pagesToRender.push(pageNumber);
+                }
+            }
+        }
+
+        let pages: Array<Uint8Array | string | null>;
+        try {
+            pages = extension === 'png'
+                ? await this.pdfConverter.getPagePngs(noteData, pagesToRender)
+                : this.pdfConverter.getPageSvgs(noteData, pagesToRender);
+        } catch (error) {
+            // Vector pages are optional, but page images are the body of the note
+            if (extension === 'png') throw error;
+            console.warn(`[importer] Could not export vector pages for ${note.name}:`, error);
+            return [];
+        }
+
+        // Pages without usable pen strokes are rendered from their bitmaps instead
+        const fallbackPages = pages
+            .map((_, index) => index + 1)
+            .filter(pageNumber => !pages[pageNumber - 1] && (!pagesToRender || pagesToRender.includes(pageNumber)));
+        const fallbacks = extension === 'svg' && fallbackPages.length > 0
+            ? await this.pdfConverter.getPagePngs(noteData, fallbackPages)
+            : [];
+
+        const images: PageImage[] = [];
+        for (let i = 0; i < pages.length; i++) {
+            const pageNumber = i + 1;
+            const reusedPath = reused.get(pageNumber);
+            if (reusedPath) {
+                images.push({ pageNumber, path: reusedPath });
+                continue;
+            }
+
+            const page = pages[i] ?? fallbacks[i];
+            if (!page) continue;
+
+            const imagePath = this.getPageImagePath(note, pageNumber, typeof page === 'string' ? extension : 'png');
+            await this.writeAttachment(
+                imagePath,
+                typeof page === 'string' ? page : page.buffer.slice(page.byteOffset, page.byteOffset + page.byteLength)
+            );
+            images.push({ pageNumber, path: imagePath });
+        }
+
+        if (reused.size > 0) {
+            console.debug(`[importer] Reused ${reused.size} unchanged page image(s) of ${note.name}`);
+        }
+        await this.removeStalePageImages(note, pages.length);
+        return images;
+    }
+
+    /**
+     * Delete page images left over from pages since removed from the note
+     * @param pageCount Pages the note has now
+     */
+    private async removeStalePageImages(note: SupernoteFile, pageCount: number): Promise<void> {
+        const fileManager = this.fileManager;
+        if (!fileManager) return;
+
+        const folder = this.vault.getAbstractFileByPath(normalizePath(this.getAttachmentFolder(note)));
+        if (!(folder instanceof TFolder)) return;
+
+        const stale = folder.children.filter(file => {
+            const match = /^page-(\d{3,})\.(png|svg)$/.exec(file.name);
+            return file instanceof TFile && match !== null && parseInt(match[1], 10) > pageCount;
+        });
+        for (const file of stale) {
+            await fileManager.trashFile(file);
+        }
+        if (stale.length > 0) {
+            console.debug(`[importer] Removed ${stale.length} page image(s) of deleted pages of ${note.name}`);
+        }
+    }
+
+    /**
+     * The page images writePageImages would list, without rendering them
+     */
+    private getPlannedPageImages(note: SupernoteFile): PageImage[] {
+        const extension = this.getImportMode(note) === 'markdown-with-images' ? 'png' : 'svg';
+        if ((extension === 'svg' && !this.exportOptions.includeVectorPages) || note.pageCount === undefined) {
+            return [];
+        }
+
+        const images: PageImage[] = [];
+        for (let pageNumber = 1; pageNumber <= note.pageCount; pageNumber++) {
+            images.push({ pageNumber, path: this.getPageImagePath(note, pageNumber, extension) });
+        }
+        return images;
+    }
+
+    /**
+     * Vault path of a page image (1-based page number)
+     */
+    private getPageImagePath(note: SupernoteFile, pageNumber: number, extension: string): string {
+        return this.buildAttachmentPath(note, `page-${String(pageNumber).padStart(3, '0')}.${extension}`);
+    }
+
+    /**
+     * Write the note's thumbnail image next to its page images.
+     * Thumbnails are decorative, so failures are logged rather than thrown.
+     */
+    private async writeThumbnail(note: SupernoteFile, noteData: ArrayBuffer): Promise<string | undefined> {
+        try {
+            const png = await this.pdfConverter.getThumbnail(noteData);
+            if (!png) return undefined;
+
+            const thumbnailPath = this.getThumbnailPath(note);
+            await this.writeAttachment(thumbnailPath, png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength));
+            return thumbnailPath;
+        } catch (error) {
+            console.warn(`[importer] Could not create thumbnail for ${note.name}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Vault path where a note's thumbnail is stored
+     */
+    getThumbnailPath(note: SupernoteFile): string {
+        return this.buildAttachmentPath(note, 'thumbnail.png');
+    }
+
+    /**
+     * Vault folder holding a note's page images and thumbnail
+     */
+    private getAttachmentFolder(note: SupernoteFile): string {
+        const noteFolder = generateFilename(note, this.ruleFor(note).filenameTemplate).replace(/\.md$/, '');
+        return this.buildVaultPath(this.attachmentsFolder, note, noteFolder);
+    }
+
+    /**
+     * Build the vault path of a per-note attachment, in a folder named after the note
+     */
+    private buildAttachmentPath(note: SupernoteFile, filename: string): string {
+        return normalizePath(`${this.getAttachmentFolder(note)}/${filename}`);
+    }
+
+    /**
+     * Create or overwrite an attachment file, creating its folder as needed
+     */
+    private async writeAttachment(filePath: string, data: string | ArrayBuffer): Promise<void> {
+        const folderPath = filePath.substring(0, filePath.lastIndexOf('/'));
+        if (folderPath) {
+            await this.ensureFolderExists(folderPath);
+        }
+
+        const existing = this.vault.getAbstractFileByPath(filePath);
+        if (typeof data === 'string') {
+            if (existing instanceof TFile) {
+                await this.vault.modify(existing, data);
+            } else {
+                await this.vault.create(filePath, data);
+            }
+        } else if (existing instanceof TFile) {
+            await this.vault.modifyBinary(existing, data);
+        } else {
+            await this.vault.createBinary(filePath, data);
+        }
+    }
+
+    /**
+     * Carry the parts of the existing body outside its managed region over to
+     * regenerated markdown
+     */
+    private keepUserSections(existingContent: string, regenerated: string): string {
+        return replaceBody(regenerated, mergeManagedBody(getBody(existingContent), getBody(regenerated)));
+    }
+
     /**
      * Check if PDF should be updated based on update options
      */
@@ -0,0 +1,122 @@
+import { Vault } from 'obsidian';
+import { LocalNoteFile, ManifestEntry, NoteVaultPaths, SyncManifest, SupernoteFile } from '../api/types';
+
+/**
+ * Find the last known location of a note, on the device and in the vault.
+ * Falls back to the frontmatter of its markdown file for notes imported before
+ * the manifest existed.
+ */
+export function getPreviousEntry(
+    note: SupernoteFile,
+    manifest: SyncManifest,
+    localFile?: LocalNoteFile
+): ManifestEntry | undefined {
+    const entry = manifest[note.id];
+    if (entry) {
+        return entry;
+    }
+
+    if (localFile && localFile.sourcePath) {
+        return {
+            devicePath: localFile.sourcePath,
+            vaultPaths: { markdown: localFile.path, pdf: localFile.pdfPath },
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Check whether a note was renamed or moved on the device since its last sync
+ */
+export function isMovedNote(
+    note: SupernoteFile,
+    manifest: SyncManifest,
+    localFile?: LocalNoteFile
+): boolean {
+    const previous = getPreviousEntry(note, manifest, localFile);
+    return previous !== undefined && previous.devicePath !== note.path;
+}
+
+/**
+ * Find notes recorded in the manifest that are no longer on the device.
+ * A note still at its recorded path counts as present even under another ID
+ * (e.g. when its FILE_ID could not be read this time).
+ * @param deviceNotes All notes on the device, including trashed ones
+ * @returns The missing notes, described as they were last synced
+ */
+export function findDeletedNotes(manifest: SyncManifest, deviceNotes: SupernoteFile[]): SupernoteFile[] {
+    const deviceIds = new Set(deviceNotes.map(note => note.id));
+    const devicePaths = new Set(deviceNotes.map(note => note.path));
+    const deleted: SupernoteFile[] = [];
+
+    for (const id of Object.keys(manifest)) {
+        const entry = manifest[id];
+        if (deviceIds.has(id) || devicePaths.has(entry.devicePath)) continue;
+
+        const modifiedAt = entry.modifiedAt ?? new Date(0).toISOString();
+        deleted.push({
+            id,
+            name: (entry.devicePath.split('/').pop() ?? id).replace(/\.note$/, ''),
+            path: entry.devicePath,
+            size: entry.size ?? 0,
+            modifiedAt,
+            createdAt: modifiedAt,
+        });
+    }
+
+    return deleted;
+}
+
+/**
+ * Add entries for imported notes missing from the manifest, based on their
+ * frontmatter (notes imported by earlier versions, or after plugin data was reset).
+ * Device details stay unknown until the next import or update, so their status
+ * falls back to comparing timestamps.
+ * @returns Number of entries added
+ */
+export function rebuildManifest(manifest: SyncManifest, localNotes: Map<string, LocalNoteFile>): number {
+    let added = 0;
+
+    localNotes.forEach(localFile => {
+        // Standalone PDFs carry no device path
+        if (!localFile.sourcePath || manifest[localFile.id]) return;
+
+        manifest[localFile.id] = {
+            devicePath: localFile.sourcePath,
+            vaultPaths: { markdown: localFile.path, pdf: localFile.pdfPath },
+            lastSync: localFile.mtime,
+        };
+        added++;
+    });
+
+    return added;
+}
+
+/**
+ * Drop vault paths that no longer exist, and entries left without any.
+ * Keeps notes the user deleted from the vault from being treated as imported.
+ */
+export function pruneManifest(manifest: SyncManifest, vault: Vault): SyncManifest {
+    const pruned: SyncManifest = {};
+
+    for (const id of Object.keys(manifest)) {
+        const entry = manifest[id];
+        const vaultPaths: NoteVaultPaths = {};
+        let hasFiles = false;
+
+        for (const key of ['markdown', 'pdf', 'attachments'] as const) {
+            const vaultPath = entry.vaultPaths[key];
+            if (vaultPath && vault.getAbstractFileByPath(vaultPath)) {
+                vaultPaths[key] = vaultPath;
+                hasFiles = true;
+            }
+        }
+
+        if (hasFiles) {
+            pruned[id] = { ...entry, vaultPaths };
+        }
+    }
+
+    return pruned;
+}
@@ -1,5 +1,6 @@
 import { Vault, TFile } from 'obsidian';
 import { LocalNoteFile } from '../api/types';
+import { parseFrontmatter } from '../utils/markdown';
 
 /**
  * Scan the vault for existing synced Supernote files.
@@ -10,16 +11,13 @@ import { LocalNoteFile } from '../api/types';
  */
 export async function scanLocalNotes(
     vault: Vault,
-    folderPath: string
+    folderPaths: string[]
 ): Promise<Map<string, LocalNoteFile>> {
     const localNotes = new Map<string, LocalNoteFile>();
 
-    // Normalize folder path
-    const normalizedFolder = folderPath.startsWith('/') ? folderPath.slice(1) : folderPath;
-
     // Scan markdown files with frontmatter
     const mdFiles = vault.getMarkdownFiles().filter(file => 
-        file.path.startsWith(normalizedFolder)
+        isInFolders(file.path, folderPaths)
     );
 
     for (const file of mdFiles) {
@@ -46,7 +44,7 @@ export async function scanLocalNotes(
 
     // Scan PDF files (for pdf-only import mode)
     const allFiles = vault.getFiles().filter(file => 
-        file.path.startsWith(normalizedFolder) && file.extension === 'pdf'
+        isInFolders(file.path, folderPaths) && file.extension === 'pdf'
     );
 
     for (const file of allFiles) {
@@ -80,16 +78,13 @@ export async function scanLocalNotes(
  */
 export function scanLocalPdfsByName(
     vault: Vault,
-    folderPath: string
+    folderPaths: string[]
 ): Map<string, TFile> {
     const pdfsByName = new Map<string, TFile>();
 
-    // Normalize folder path
-    const normalizedFolder = folderPath.startsWith('/') ? folderPath.slice(1) : folderPath;
-
-    // Get all PDF files in the folder (recursively)
+    // Get all PDF files in the folders (recursively)
     const allFiles = vault.getFiles().filter(file =>
-        file.path.startsWith(normalizedFolder) && file.extension === 'pdf'
+        isInFolders(file.path, folderPaths) && file.extension === 'pdf'
     );
 
     for (const file of allFiles) {
@@ -110,10 +105,10 @@ export function scanLocalPdfsByName(
  */
 export async function getLocalNoteById(
     vault: Vault,
-    folderPath: string,
+    folderPaths: string[],
     noteId: string
 ): Promise<LocalNoteFile | null> {
-    const localNotes = await scanLocalNotes(vault, folderPath);
+    const localNotes = await scanLocalNotes(vault, folderPaths);
     return localNotes.get(noteId) || null;
 }
 
@@ -122,86 +117,16 @@ export async function getLocalNoteById(
  */
 export async function findLocalNoteFile(
     vault: Vault,
-    folderPath: string,
+    folderPaths: string[],
     noteId: string
 ): Promise<TFile | null> {
-    const localNote = await getLocalNoteById(vault, folderPath, noteId);
+    const localNote = await getLocalNoteById(vault, folderPaths, noteId);
     if (!localNote) return null;
     
     const file = vault.getAbstractFileByPath(localNote.path);
     return file instanceof TFile ? file : null;
 }
 
-/**
- * Parse frontmatter from markdown content
- */
-export function parseFrontmatter(content: string): Record<string, unknown> {
-    const match = content.match(/^---\n([\s\S]*?)\n---/);
-    if (!match) return {};
-
-    const yaml = match[1];
-    const frontmatter: Record<string, unknown> = {};
-    
-    // Simple YAML parsing (handles basic key-value pairs and arrays)
-    const lines = yaml.split('\n');
-    let currentKey = '';
-    let isArray = false;
-    let arrayValues: string[] = [];
-
-    for (const line of lines) {
-        // Check if this is an array item
-        if (line.match(/^\s+-\s+/)) {
-            if (isArray && currentKey) {
-                const value = line.replace(/^\s+-\s+/, '').trim();
-                // Handle quoted values
-                const unquoted = value.replace(/^["']|["']$/g, '');
-                // Handle wikilinks
-                const cleaned = unquoted.replace(/^\[\[|\]\]$/g, '');
-                arrayValues.push(cleaned);
-            }
-            continue;
-        }
-
-        // If we were building an array, save it
-        if (isArray && currentKey) {
-            frontmatter[currentKey] = arrayValues;
-            isArray = false;
-            arrayValues = [];
-        }
-
-        // Parse key-value pair
-        const colonIndex = line.indexOf(':');
-        if (colonIndex === -1) continue;
-
-        const key = line.slice(0, colonIndex).trim();
-        const value = line.slice(colonIndex + 1).trim();
-
-        if (!key) continue;
-
-        currentKey = key;
-
-        if (value === '' || value === '|' || value === '>') {
-            // This might be the start of an array or multiline value
-            isArray = true;
-            arrayValues = [];
-        } else if (value.startsWith('[') && value.endsWith(']')) {
-            // Inline array
-            const items = value.slice(1, -1).split(',').map(s => s.trim().replace(/^["']|["']$/g, ''));
-            frontmatter[key] = items;
-        } else {
-            // Regular value - remove quotes
-            frontmatter[key] = value.replace(/^["']|["']$/g, '');
-        }
-    }
-
-    // Don't forget to save the last array if we were building one
-    if (isArray && currentKey) {
-        frontmatter[currentKey] = arrayValues;
-    }
-
-    return frontmatter;
-}
-
 /**
  * Extract the ID from a Supernote source path
  * The ID is typically the file path itself or a hash of it
@@ -234,3 +159,15 @@ export function isLocallyModified(
 ): boolean {
     return localFile.mtime > lastSync;
 }
+
+/**
+ * Check whether a vault path is inside one of the given folders (or their
+ * subfolders), so "Supernote" doesn't take in "Supernote Archive"
+ */
+export function isInFolders(filePath: string, folderPaths: string[]): boolean {
+    return folderPaths.some(folderPath => {
+        const normalizedFolder = folderPath.replace(/^\/+|\/+$/g, '');
+        // An empty folder is the vault root, which holds every file
+        return normalizedFolder === '' || filePath.startsWith(`${normalizedFolder}/`);
+    });
+}
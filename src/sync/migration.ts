@@ -0,0 +1,131 @@
+/**
+ * Migrations for vault data written by earlier versions of the plugin.
+ */
+
+import { App } from 'obsidian';
+import { LocalNoteFile, SupernoteFile } from '../api/types';
+import { TrashRule } from '../settings';
+import { addManagedMarkers, getBody, parseFrontmatter, updateFrontmatter } from '../utils/markdown';
+import { isInFolders } from './matcher';
+
+/**
+ * Rewrite `supernote_id` frontmatter of notes imported with path-hash IDs to the
+ * FILE_ID-based IDs of the matching device notes. Idempotent: notes already using
+ * the new ID no longer match a legacy ID.
+ * @returns Number of vault notes rewritten
+ */
+export async function migrateLegacyNoteIds(
+    app: App,
+    folderPath: string,
+    remoteNotes: SupernoteFile[]
+): Promise<number> {
+    const byLegacyId = new Map<string, SupernoteFile>();
+    for (const note of remoteNotes) {
+        if (note.legacyId) {
+            byLegacyId.set(note.legacyId, note);
+        }
+    }
+    if (byLegacyId.size === 0) {
+        return 0;
+    }
+
+    const normalizedFolder = folderPath.startsWith('/') ? folderPath.slice(1) : folderPath;
+    const mdFiles = app.vault.getMarkdownFiles().filter(file => file.path.startsWith(normalizedFolder));
+
+    let migrated = 0;
+    for (const file of mdFiles) {
+        // The metadata cache avoids reading every file on each sync
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+        const currentId = frontmatter?.supernote_id;
+        if (typeof currentId !== 'string') continue;
+
+        const remote = byLegacyId.get(currentId);
+        if (!remote) continue;
+
+        await app.vault.process(file, content =>
+            updateFrontmatter(content, { supernote_id: remote.id }, true, ['supernote_id'])
+        );
+        migrated++;
+    }
+
+    if (migrated > 0) {
+        console.debug(`[migration] Migrated ${migrated} note(s) to FILE_ID identity`);
+    }
+    return migrated;
+}
+
+/**
+ * Turn the trashed note IDs of earlier versions into note trash rules. Their
+ * labels are filled in from the device by `migrateTrashRules`.
+ */
+export function convertTrashedNoteIds(trash: TrashRule[], trashedNoteIds: string[]): TrashRule[] {
+    const converted = trashedNoteIds
+        .filter(id => !trash.some(rule => rule.type === 'note' && rule.value === id))
+        .map((id): TrashRule => ({ type: 'note', value: id, label: '', trashedAt: 0 }));
+    return [...trash, ...converted];
+}
+
+/**
+ * Map note trash rules from legacy path hashes to FILE_ID-based IDs, and label
+ * note rules without a label with the device path of their note
+ */
+export function migrateTrashRules(trash: TrashRule[], remoteNotes: SupernoteFile[]): TrashRule[] {
+    const byId = new Map<string, SupernoteFile>();
+    for (const note of remoteNotes) {
+        byId.set(note.id, note);
+        if (note.legacyId) {
+            byId.set(note.legacyId, note);
+        }
+    }
+
+    const migrated: TrashRule[] = [];
+    for (const rule of trash) {
+        const note = rule.type === 'note' ? byId.get(rule.value) : undefined;
+        const updated = note ? { ...rule, value: note.id, label: rule.label || note.path } : rule;
+        if (!migrated.some(other => other.type === updated.type && other.value === updated.value)) {
+            migrated.push(updated);
+        }
+    }
+    return migrated;
+}
+
+/**
+ * Add managed region markers to imported notes written before they existed, so
+ * their "## Notes" section survives updates. Idempotent: notes that already have
+ * markers, or no notes section to tell the generated part apart, are left as is.
+ * @returns The notes rewritten, with their modification time from before
+ */
+export async function migrateManagedRegions(app: App, folderPaths: string[]): Promise<LocalNoteFile[]> {
+    const mdFiles = app.vault.getMarkdownFiles().filter(file => isInFolders(file.path, folderPaths));
+
+    const withMarkers = (content: string): string | null => {
+        if (typeof parseFrontmatter(content).supernote_id !== 'string') return null;
+        const body = getBody(content);
+        const migratedBody = addManagedMarkers(body);
+        return migratedBody === null ? null : content.slice(0, content.length - body.length) + migratedBody;
+    };
+
+    const migrated: LocalNoteFile[] = [];
+    for (const file of mdFiles) {
+        // Files are only written when they change, so their modification time stays meaningful
+        const content = await app.vault.cachedRead(file);
+        if (withMarkers(content) === null) continue;
+
+        const frontmatter = parseFrontmatter(content);
+        const note: LocalNoteFile = {
+            path: file.path,
+            id: String(frontmatter.supernote_id),
+            sourcePath: frontmatter.source ? String(frontmatter.source) : '',
+            mtime: file.stat.mtime,
+            pdfPath: frontmatter.pdf_attachment ? String(frontmatter.pdf_attachment) : undefined,
+        };
+
+        await app.vault.process(file, current => withMarkers(current) ?? current);
+        migrated.push(note);
+    }
+
+    if (migrated.length > 0) {
+        console.debug(`[migration] Added managed regions to ${migrated.length} note(s)`);
+    }
+    return migrated;
+}
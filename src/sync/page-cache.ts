@@ -0,0 +1,95 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { PageImageCache } from '../api/note-parser';
+
+// Upper bound for page images kept on disk
+const MAX_CACHE_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Page images kept in a folder of the plugin, so pages unchanged since an
+ * earlier conversion are not rendered again, also after a restart.
+ *
+ * Images are files named after their key. Beyond MAX_CACHE_BYTES, the oldest
+ * are removed. A cache that can't be read or written only costs rendering time,
+ * so failures are logged rather than thrown.
+ */
+export class PageImageStore implements PageImageCache {
+    private adapter: DataAdapter;
+    private folder: string;
+    private index: Promise<Map<string, number>> | null = null;  // File path -> size, oldest first
+
+    constructor(adapter: DataAdapter, folder: string) {
+        this.adapter = adapter;
+        this.folder = normalizePath(folder);
+    }
+
+    async get(key: string): Promise<Uint8Array | null> {
+        const path = this.getPath(key);
+        try {
+            const index = await this.loadIndex();
+            if (!index.has(path)) return null;
+            return new Uint8Array(await this.adapter.readBinary(path));
+        } catch (error) {
+            console.warn(`[page-cache] Could not read ${path}:`, error);
+            return null;
+        }
+    }
+
+    async set(key: string, image: Uint8Array): Promise<void> {
+        const path = this.getPath(key);
+        try {
+            const index = await this.loadIndex();
+            if (index.has(path) || image.length > MAX_CACHE_BYTES) return;
+
+            await this.adapter.writeBinary(path, image.slice().buffer);
+            index.set(path, image.length);
+            await this.evict(index);
+        } catch (error) {
+            console.warn(`[page-cache] Could not write ${path}:`, error);
+        }
+    }
+
+    /**
+     * Keys hold a hash and the page size; anything else is replaced so they make valid file names
+     */
+    private getPath(key: string): string {
+        return normalizePath(`${this.folder}/${key.replace(/[^0-9A-Za-z]/g, '-')}.bin`);
+    }
+
+    /**
+     * Read the images already in the folder, once, oldest first
+     */
+    private loadIndex(): Promise<Map<string, number>> {
+        if (!this.index) {
+            this.index = (async () => {
+                if (!(await this.adapter.exists(this.folder))) {
+                    await this.adapter.mkdir(this.folder);
+                    return new Map<string, number>();
+                }
+
+                const files: Array<{ path: string; size: number; mtime: number }> = [];
+                for (const path of (await this.adapter.list(this.folder)).files) {
+                    const stat = await this.adapter.stat(path);
+                    if (stat) files.push({ path, size: stat.size, mtime: stat.mtime });
+                }
+                files.sort((a, b) => a.mtime - b.mtime);
+                return new Map(files.map(file => [file.path, file.size] as [string, number]));
+            })();
+            // Try again next time rather than caching the failure
+            this.index.catch(() => { this.index = null; });
+        }
+        return this.index;
+    }
+
+    /**
+     * Remove the oldest images beyond the size limit
+     */
+    private async evict(index: Map<string, number>): Promise<void> {
+        let totalBytes = Array.from(index.values()).reduce((sum, size) => sum + size, 0);
+        for (const [path, size] of Array.from(index.entries())) {
+            if (totalBytes <= MAX_CACHE_BYTES) break;
+            await this.adapter.remove(path);
+            index.delete(path);
+            totalBytes -= size;
+        }
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Scheduler states, as shown in the status bar
+ */
+export type SchedulerState = 'waiting' | 'checking' | 'syncing' | 'offline';
+
+// Longest wait between checks while the device is unreachable
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+/**
+ * Runs background syncs on an interval while the device is reachable.
+ *
+ * Each tick checks the connection first; a sync runs only when the device answers.
+ * While it doesn't (Browse & Access off, different network), the wait between
+ * checks doubles up to MAX_BACKOFF_MS, and returns to the interval once it
+ * reappears. Ticks are chained, so a sync never overlaps the next check.
+ */
+export class SyncScheduler {
+    private intervalMs: number;
+    private checkConnection: () => Promise<boolean>;
+    private runSync: () => Promise<void>;
+    private onStateChange: (state: SchedulerState) => void;
+
+    private timer: number | null = null;
+    private delayMs: number;
+    private running = false;
+    private stopped = true;
+
+    constructor(
+        intervalMs: number,
+        checkConnection: () => Promise<boolean>,
+        runSync: () => Promise<void>,
+        onStateChange: (state: SchedulerState) => void
+    ) {
+        this.intervalMs = intervalMs;
+        this.delayMs = intervalMs;
+        this.checkConnection = checkConnection;
+        this.runSync = runSync;
+        this.onStateChange = onStateChange;
+    }
+
+    /**
+     * Start polling; the first check runs right away
+     */
+    start(): void {
+        if (!this.stopped) return;
+        this.stopped = false;
+        this.delayMs = this.intervalMs;
+        this.schedule(0);
+    }
+
+    /**
+     * Stop polling. A sync already in progress finishes, but no further checks run.
+     */
+    stop(): void {
+        this.stopped = true;
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private schedule(delayMs: number): void {
+        if (this.stopped) return;
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            void this.tick();
+        }, delayMs);
+    }
+
+    private async tick(): Promise<void> {
+        if (this.running || this.stopped) return;
+        this.running = true;
+
+        try {
+            this.onStateChange('checking');
+            const reachable = await this.checkConnection().catch(() => false);
+
+            if (!reachable) {
+                this.onStateChange('offline');
+                this.delayMs = Math.min(this.delayMs * 2, Math.max(MAX_BACKOFF_MS, this.intervalMs));
+                return;
+            }
+
+            this.delayMs = this.intervalMs;
+            this.onStateChange('syncing');
+            try {
+                await this.runSync();
+            } catch (error) {
+                console.error('[scheduler] Background sync failed:', error);
+            }
+            this.onStateChange('waiting');
+        } finally {
+            this.running = false;
+            this.schedule(this.delayMs);
+        }
+    }
+}
@@ -1,30 +1,49 @@
-import { SupernoteFile, SyncStatus, LocalNoteFile } from '../api/types';
+import { SupernoteFile, SyncStatus, LocalNoteFile, SyncManifest, ManifestEntry } from '../api/types';
 import { TFile } from 'obsidian';
+import { findDeletedNotes, isMovedNote } from './manifest';
 
 /**
- * Calculate the sync status by comparing remote notes with local files
+ * Calculate the sync status by comparing remote notes with local files.
+ * Pass every note on the device as `deviceNotes` when `remoteNotes` is filtered,
+ * so excluded notes are not reported as deleted.
  */
 export function calculateSyncStatus(
     remoteNotes: SupernoteFile[],
     localNotes: Map<string, LocalNoteFile>,
-    existingPdfNames?: Map<string, TFile>
+    existingPdfNames?: Map<string, TFile>,
+    manifest: SyncManifest = {},
+    deviceNotes: SupernoteFile[] = remoteNotes
 ): SyncStatus {
     const status: SyncStatus = {
         new: [],
         updated: [],
-        synced: []
+        synced: [],
+        moved: [],
+        deleted: findDeletedNotes(manifest, deviceNotes)
     };
 
     remoteNotes.forEach(note => {
         const localFile = localNotes.get(note.id);
+        const entry = manifest[note.id];
         
         // Also check if a PDF with this name already exists (for pdf-only mode)
         const normalizedName = note.name.toLowerCase().replace(/\+/g, ' ');
         const existingPdf = existingPdfNames?.get(normalizedName) || existingPdfNames?.get(note.name.toLowerCase());
 
-        if (!localFile && !existingPdf) {
+        if (isMovedNote(note, manifest, localFile)) {
+            // Known note at a new device path - its vault files need to follow
+            status.moved.push(note);
+        } else if (!localFile && !existingPdf && !entry) {
             // Note doesn't exist locally
             status.new.push(note);
+        } else if (entry?.modifiedAt !== undefined) {
+            // The device details recorded at the last sync decide; vault timestamps
+            // also change when files are edited or touched in Obsidian
+            if (isDeviceChanged(note, entry)) {
+                status.updated.push(note);
+            } else {
+                status.synced.push(note);
+            }
         } else if (localFile) {
             // Compare timestamps to detect updates
             const remoteModified = new Date(note.modifiedAt).getTime();
@@ -47,12 +66,31 @@ export function calculateSyncStatus(
             } else {
                 status.synced.push(note);
             }
+        } else {
+            // Only known from the manifest (e.g. a PDF named by an older template)
+            status.synced.push(note);
         }
     });
 
     return status;
 }
 
+/**
+ * Check whether a note changed on the device since it was recorded in the manifest
+ */
+export function isDeviceChanged(note: SupernoteFile, entry: ManifestEntry): boolean {
+    return entry.size !== note.size || entry.modifiedAt !== note.modifiedAt;
+}
+
+/**
+ * Check whether a vault note was edited since it was last written by a sync.
+ * Uses the note's own sync time from the manifest, or the global last sync for
+ * notes the manifest doesn't know the sync time of.
+ */
+export function isLocallyModified(localFile: LocalNoteFile, entry: ManifestEntry | undefined, lastSync: number): boolean {
+    return localFile.mtime > (entry?.lastSync ?? lastSync);
+}
+
 /**
  * Filter to only notes that don't exist locally (for import)
  * Also checks for existing PDFs by name for pdf-only mode
@@ -60,13 +98,19 @@ export function calculateSyncStatus(
 export function filterNewNotes(
     remoteNotes: SupernoteFile[],
     localNotes: Map<string, LocalNoteFile>,
-    existingPdfNames?: Map<string, TFile>
+    existingPdfNames?: Map<string, TFile>,
+    manifest: SyncManifest = {}
 ): SupernoteFile[] {
     return remoteNotes.filter(note => {
         // Check by ID (for markdown mode with frontmatter)
         if (localNotes.has(note.id)) {
             return false;
         }
+
+        // Check the sync manifest (catches PDFs whose name no longer matches)
+        if (manifest[note.id]) {
+            return false;
+        }
         
         // Check by PDF name (for pdf-only mode)
         if (existingPdfNames) {
@@ -80,6 +124,17 @@ export function filterNewNotes(
     });
 }
 
+/**
+ * Filter to notes renamed or moved on the device since their last sync
+ */
+export function filterMovedNotes(
+    remoteNotes: SupernoteFile[],
+    localNotes: Map<string, LocalNoteFile>,
+    manifest: SyncManifest
+): SupernoteFile[] {
+    return remoteNotes.filter(note => isMovedNote(note, manifest, localNotes.get(note.id)));
+}
+
 /**
  * Filter to only notes that exist locally (for update)
  */
@@ -97,13 +152,14 @@ export function filterByModificationStatus(
     notes: SupernoteFile[],
     localNotes: Map<string, LocalNoteFile>,
     lastSync: number,
-    includeModified: boolean
+    includeModified: boolean,
+    manifest: SyncManifest = {}
 ): SupernoteFile[] {
     return notes.filter(note => {
         const localFile = localNotes.get(note.id);
         if (!localFile) return true; // New notes always included
         
-        const isModified = localFile.mtime > lastSync;
+        const isModified = isLocallyModified(localFile, manifest[note.id], lastSync);
         return includeModified ? true : !isModified;
     });
 }
@@ -114,14 +170,15 @@ export function filterByModificationStatus(
 export function splitByModificationStatus(
     notes: SupernoteFile[],
     localNotes: Map<string, LocalNoteFile>,
-    lastSync: number
+    lastSync: number,
+    manifest: SyncManifest = {}
 ): { modified: SupernoteFile[]; unmodified: SupernoteFile[] } {
     const modified: SupernoteFile[] = [];
     const unmodified: SupernoteFile[] = [];
 
     for (const note of notes) {
         const localFile = localNotes.get(note.id);
-        if (localFile && localFile.mtime > lastSync) {
+        if (localFile && isLocallyModified(localFile, manifest[note.id], lastSync)) {
             modified.push(note);
         } else {
             unmodified.push(note);
@@ -1,8 +1,9 @@
 import { App, Modal, Notice, setIcon } from 'obsidian';
 import { SupernoteFile, LocalNoteFile } from '../api/types';
 import { formatFileSize } from '../utils/markdown';
+import { LazyThumbnails, ThumbnailSource } from './thumbnails';
 
-export type ActionType = 'import' | 'update' | 'export';
+export type ActionType = 'import' | 'update' | 'export' | 'delete';
 
 /**
  * Interactive confirmation modal with table selection, keyboard navigation, and trash functionality
@@ -13,12 +14,16 @@ export class ConfirmationModal extends Modal {
     private actionType: ActionType;
     private onConfirm: (selectedNotes: SupernoteFile[]) => void;
     private onCancel: () => void;
-    private onTrash: (noteId: string) => void;
+    private onTrash: (note: SupernoteFile) => void;
 
     // For showing modification status
     private lastSync?: number;
     private localNotes?: Map<string, LocalNoteFile>;
 
+    // Row thumbnails (only when enabled)
+    private thumbnails?: LazyThumbnails;
+    private thumbnailSource?: ThumbnailSource;
+
     // Keyboard navigation
     private currentRowIndex: number = 0;
     private tableRows: HTMLTableRowElement[] = [];
@@ -35,11 +40,13 @@ export class ConfirmationModal extends Modal {
         actionType: ActionType,
         onConfirm: (selectedNotes: SupernoteFile[]) => void,
         onCancel: () => void,
-        onTrash: (noteId: string) => void,
+        onTrash: (note: SupernoteFile) => void,
         lastSync?: number,
-        localNotes?: Map<string, LocalNoteFile>
+        localNotes?: Map<string, LocalNoteFile>,
+        thumbnailSource?: ThumbnailSource
     ) {
         super(app);
+        this.thumbnailSource = thumbnailSource;
         this.notes = notes;
         this.actionType = actionType;
         this.lastSync = lastSync;
@@ -72,6 +79,10 @@ export class ConfirmationModal extends Modal {
             cls: 'supernote-help-text'
         });
 
+        if (this.thumbnailSource) {
+            this.thumbnails = new LazyThumbnails(this.thumbnailSource);
+        }
+
         // Scrollable table container
         const tableContainer = contentEl.createDiv('supernote-scroll-container');
         tableContainer.appendChild(this.createNotesTable());
@@ -175,15 +186,18 @@ export class ConfirmationModal extends Modal {
             checkbox.onchange = () => this.toggleSelection(note.id);
             cellWrapper.appendChild(checkbox);
 
-            // Trash icon (hidden by default)
-            const trashIcon = cellWrapper.createSpan('supernote-trash-icon');
-            trashIcon.setAttribute('data-trash-icon', 'true');
-            trashIcon.setAttribute('aria-label', 'Exclude from future syncs');
-            trashIcon.onclick = (e) => {
-                e.stopPropagation();
-                this.handleTrash(note.id);
-            };
-            setIcon(trashIcon, 'trash-2');
+            // Trash icon (hidden by default; deleted notes can't be synced anyway)
+            let trashIcon: HTMLSpanElement | null = null;
+            if (this.actionType !== 'delete') {
+                trashIcon = cellWrapper.createSpan('supernote-trash-icon');
+                trashIcon.setAttribute('data-trash-icon', 'true');
+                trashIcon.setAttribute('aria-label', 'Exclude from future syncs');
+                trashIcon.onclick = (e) => {
+                    e.stopPropagation();
+                    this.handleTrash(note);
+                };
+                setIcon(trashIcon, 'trash-2');
+            }
 
             // Row hover handlers
             row.onmouseenter = () => {
@@ -200,7 +214,7 @@ export class ConfirmationModal extends Modal {
             // Row click handler
             row.onclick = (e) => {
                 const target = e.target as HTMLElement;
-                if (target !== checkbox && !trashIcon.contains(target)) {
+                if (target !== checkbox && !trashIcon?.contains(target)) {
                     this.setCurrentRow(index);
                     checkbox.checked = !checkbox.checked;
                     this.toggleSelection(note.id);
@@ -209,10 +223,16 @@ export class ConfirmationModal extends Modal {
                 }
             };
 
-            // Name cell
+            // Name cell (with thumbnail, if enabled)
             const nameCell = row.insertCell();
-            nameCell.textContent = note.name;
             nameCell.addClass('supernote-cell-name');
+            if (this.thumbnails) {
+                nameCell.addClass('supernote-cell-with-thumbnail');
+                this.thumbnails.add(nameCell, note);
+                nameCell.createSpan({ text: note.name });
+            } else {
+                nameCell.textContent = note.name;
+            }
 
             // Path cell
             const pathCell = row.insertCell();
@@ -362,8 +382,9 @@ export class ConfirmationModal extends Modal {
         }
     }
 
-    private handleTrash(noteId: string): void {
-        this.onTrash(noteId);
+    private handleTrash(note: SupernoteFile): void {
+        const noteId = note.id;
+        this.onTrash(note);
         this.selectedNotes.delete(noteId);
         this.notes = this.notes.filter(n => n.id !== noteId);
 
@@ -427,7 +448,7 @@ export class ConfirmationModal extends Modal {
             cls: 'mod-warning'
         });
         confirmBtn.onclick = () => {
-            selectedIds.forEach(id => this.onTrash(id));
+            this.notes.filter(n => selectedIds.includes(n.id)).forEach(note => this.onTrash(note));
             this.notes = this.notes.filter(n => !selectedIds.includes(n.id));
             this.selectedNotes.clear();
 
@@ -457,6 +478,7 @@ export class ConfirmationModal extends Modal {
             case 'import': return 'Import new notes';
             case 'update': return 'Update existing notes';
             case 'export': return 'Bulk export all notes';
+            case 'delete': return 'Notes deleted on device';
             default: return 'Confirm action';
         }
     }
@@ -469,6 +491,8 @@ export class ConfirmationModal extends Modal {
                 return `${this.notes.length} note(s) can be updated. Select which ones to update:`;
             case 'export':
                 return `${this.notes.length} note(s) will be exported. Existing files will be overwritten.`;
+            case 'delete':
+                return `${this.notes.length} note(s) are no longer on your Supernote. Select which ones to apply the deletion policy to:`;
             default:
                 return `${this.notes.length} note(s) will be affected:`;
         }
@@ -491,6 +515,7 @@ export class ConfirmationModal extends Modal {
     }
 
     onClose(): void {
+        this.thumbnails?.stop();
         this.contentEl.empty();
     }
 }
@@ -0,0 +1,270 @@
+import { DropdownComponent, ExtraButtonComponent, ItemView, SearchComponent, WorkspaceLeaf, setIcon } from 'obsidian';
+import { SupernoteFile, SyncStatus } from '../api/types';
+import { groupNotesByDirectory, searchNotes, sortNotes } from '../utils/filters';
+import { formatFileSize } from '../utils/markdown';
+import { LazyThumbnails, ThumbnailSource } from './thumbnails';
+
+export const VIEW_TYPE_DEVICE = 'supernote-device';
+
+type NoteState = 'new' | 'updated' | 'moved' | 'synced';
+type SortKey = 'name' | 'date' | 'size';
+
+const STATE_LABELS: Record<NoteState, string> = {
+    new: 'New',
+    updated: 'Updated',
+    moved: 'Moved',
+    synced: 'Synced',
+};
+
+/**
+ * What the device view needs from the plugin
+ */
+export interface DeviceViewActions {
+    loadStatus: () => Promise<SyncStatus>;
+    importNotes: (notes: SupernoteFile[]) => Promise<void>;
+    updateNotes: (notes: SupernoteFile[]) => Promise<void>;
+    trashNote: (note: SupernoteFile) => Promise<void>;
+    openLocal: (note: SupernoteFile) => Promise<void>;
+    getBrowseUrl: (note: SupernoteFile) => string;
+    getThumbnailSource: () => ThumbnailSource | undefined;
+}
+
+/**
+ * Side panel listing the notes on the device by folder, with their sync state
+ * and per-note actions. Stays open, unlike the modals, and refreshes on demand
+ * and after each sync.
+ */
+export class DeviceView extends ItemView {
+    private actions: DeviceViewActions;
+    private status: SyncStatus | null = null;
+    private error: string | null = null;
+    private loading = false;
+    private query = '';
+    private sortBy: SortKey = 'name';
+    private ascending = true;
+    private collapsed = new Set<string>();    // Directories folded by the user
+    private thumbnails?: LazyThumbnails;
+    private summaryEl: HTMLElement;
+    private listEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, actions: DeviceViewActions) {
+        super(leaf);
+        this.actions = actions;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_DEVICE;
+    }
+
+    getDisplayText(): string {
+        return 'Supernote device';
+    }
+
+    getIcon(): string {
+        return 'tablet';
+    }
+
+    async onOpen(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('supernote-device-view');
+
+        // Toolbar: search, sort, refresh
+        const toolbar = contentEl.createDiv('supernote-view-toolbar');
+
+        new SearchComponent(toolbar)
+            .setPlaceholder('Search notes')
+            .onChange(value => {
+                this.query = value;
+                this.renderList();
+            });
+
+        const controls = toolbar.createDiv('supernote-view-controls');
+
+        new DropdownComponent(controls)
+            .addOption('name', 'Name')
+            .addOption('date', 'Modified')
+            .addOption('size', 'Size')
+            .setValue(this.sortBy)
+            .onChange((value: SortKey) => {
+                this.sortBy = value;
+                this.renderList();
+            });
+
+        const direction = new ExtraButtonComponent(controls)
+            .setIcon('arrow-up')
+            .setTooltip('Sort direction')
+            .onClick(() => {
+                this.ascending = !this.ascending;
+                direction.setIcon(this.ascending ? 'arrow-up' : 'arrow-down');
+                this.renderList();
+            });
+
+        new ExtraButtonComponent(controls)
+            .setIcon('refresh-cw')
+            .setTooltip('Refresh from device')
+            .onClick(() => { void this.refresh(); });
+
+        this.summaryEl = contentEl.createDiv('supernote-view-summary');
+        this.listEl = contentEl.createDiv('supernote-view-list');
+
+        await this.refresh();
+    }
+
+    onClose(): Promise<void> {
+        this.thumbnails?.stop();
+        this.contentEl.empty();
+        return Promise.resolve();
+    }
+
+    /**
+     * Reload notes and their sync state from the device
+     */
+    async refresh(): Promise<void> {
+        if (this.loading) return;
+        this.loading = true;
+        this.summaryEl.setText('Loading notes from device...');
+
+        try {
+            this.status = await this.actions.loadStatus();
+            this.error = null;
+        } catch (error) {
+            this.error = error instanceof Error ? error.message : 'Unknown error';
+        } finally {
+            this.loading = false;
+        }
+
+        this.renderList();
+    }
+
+    private renderList(): void {
+        this.thumbnails?.stop();
+        this.thumbnails = undefined;
+        this.listEl.empty();
+
+        if (this.error) {
+            this.summaryEl.setText(`Could not load notes: ${this.error}`);
+            return;
+        }
+        if (!this.status) return;
+
+        // Notes on the device with their state (deleted notes are no longer there)
+        const states = new Map<string, NoteState>();
+        const notes: SupernoteFile[] = [];
+        for (const state of ['new', 'updated', 'moved', 'synced'] as const) {
+            for (const note of this.status[state]) {
+                states.set(note.id, state);
+                notes.push(note);
+            }
+        }
+
+        this.summaryEl.setText(
+            `${notes.length} notes, ${this.status.new.length} new, ${this.status.updated.length} updated`
+        );
+
+        const matching = this.query ? searchNotes(notes, this.query) : notes;
+        if (matching.length === 0) {
+            this.listEl.createDiv({
+                text: notes.length === 0 ? 'No notes on the device' : 'No notes match your search',
+                cls: 'supernote-view-empty',
+            });
+            return;
+        }
+
+        const thumbnailSource = this.actions.getThumbnailSource();
+        if (thumbnailSource) {
+            this.thumbnails = new LazyThumbnails(thumbnailSource);
+        }
+
+        // Sorted before grouping, so each folder keeps the order
+        const groups = groupNotesByDirectory(sortNotes(matching, this.sortBy, this.ascending));
+        const directories = Array.from(groups.keys()).sort((a, b) => a.localeCompare(b));
+
+        for (const directory of directories) {
+            this.renderFolder(directory, groups.get(directory)!, states);
+        }
+    }
+
+    private renderFolder(directory: string, notes: SupernoteFile[], states: Map<string, NoteState>): void {
+        const segments = directory.split('/').filter(Boolean);
+        const folderEl = this.listEl.createDiv('supernote-view-folder');
+        folderEl.setCssProps({ '--supernote-folder-depth': String(Math.max(0, segments.length - 1)) });
+
+        const header = folderEl.createDiv('supernote-view-folder-header');
+        const chevron = header.createSpan('supernote-view-chevron');
+        header.createSpan({ text: segments[segments.length - 1] ?? '/', cls: 'supernote-view-folder-name' });
+        header.createSpan({ text: String(notes.length), cls: 'supernote-view-folder-count' });
+        header.title = directory;
+
+        const children = folderEl.createDiv('supernote-view-folder-children');
+        for (const note of notes) {
+            this.renderNote(children, note, states.get(note.id) ?? 'synced');
+        }
+
+        const update = (): void => {
+            const isCollapsed = this.collapsed.has(directory);
+            setIcon(chevron, isCollapsed ? 'chevron-right' : 'chevron-down');
+            children.toggleClass('is-collapsed', isCollapsed);
+        };
+        header.onclick = () => {
+            if (this.collapsed.has(directory)) {
+                this.collapsed.delete(directory);
+            } else {
+                this.collapsed.add(directory);
+            }
+            update();
+        };
+        update();
+    }
+
+    private renderNote(container: HTMLElement, note: SupernoteFile, state: NoteState): void {
+        const row = container.createDiv('supernote-view-note');
+
+        if (this.thumbnails) {
+            this.thumbnails.add(row, note);
+        }
+
+        const info = row.createDiv('supernote-view-note-info');
+        info.createDiv({ text: note.name, cls: 'supernote-view-note-name' });
+        const meta = info.createDiv('supernote-view-note-meta');
+        meta.createSpan({ text: STATE_LABELS[state], cls: `supernote-status-${state}` });
+        meta.createSpan({ text: ` · ${new Date(note.modifiedAt).toLocaleDateString()} · ${formatFileSize(note.size)}` });
+
+        const actionsEl = row.createDiv('supernote-view-note-actions');
+
+        if (state === 'new') {
+            this.addNoteAction(actionsEl, 'download', 'Import', () => this.actions.importNotes([note]));
+        } else {
+            if (state !== 'synced') {
+                this.addNoteAction(actionsEl, 'refresh-cw', 'Update', () => this.actions.updateNotes([note]));
+            }
+            this.addNoteAction(actionsEl, 'file-text', 'Open in vault', () => this.actions.openLocal(note));
+        }
+        this.addNoteAction(actionsEl, 'external-link', 'Show on device', () => {
+            window.open(this.actions.getBrowseUrl(note));
+            return Promise.resolve();
+        });
+        this.addNoteAction(actionsEl, 'trash-2', 'Exclude from sync', async () => {
+            await this.actions.trashNote(note);
+            this.removeNote(note.id);
+        });
+    }
+
+    private addNoteAction(container: HTMLElement, icon: string, label: string, action: () => Promise<void>): void {
+        new ExtraButtonComponent(container)
+            .setIcon(icon)
+            .setTooltip(label)
+            .onClick(() => { void action(); });
+    }
+
+    /**
+     * Drop a note from the list without reloading from the device
+     */
+    private removeNote(noteId: string): void {
+        if (!this.status) return;
+        for (const state of ['new', 'updated', 'moved', 'synced'] as const) {
+            this.status[state] = this.status[state].filter(note => note.id !== noteId);
+        }
+        this.renderList();
+    }
+}
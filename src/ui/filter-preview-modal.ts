@@ -0,0 +1,80 @@
+import { App, Modal, Setting } from 'obsidian';
+import { SupernoteFile } from '../api/types';
+import { FilteredNote } from '../utils/filters';
+
+/**
+ * Read-only modal listing which notes on the device the note filters sync,
+ * and which they leave out and why
+ */
+export class FilterPreviewModal extends Modal {
+    private matching: SupernoteFile[];
+    private filteredOut: FilteredNote[];
+
+    constructor(app: App, matching: SupernoteFile[], filteredOut: FilteredNote[]) {
+        super(app);
+        this.matching = matching;
+        this.filteredOut = filteredOut;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.modalEl.addClass('supernote-modal-large');
+        this.titleEl.setText('Note filters');
+
+        const summaryEl = contentEl.createDiv('supernote-summary');
+        this.createStatBox(summaryEl, String(this.matching.length), 'Synced', 'supernote-text-green');
+        this.createStatBox(summaryEl, String(this.filteredOut.length), 'Left out', 'supernote-text-orange');
+
+        const scrollContainer = contentEl.createDiv('supernote-scroll-container supernote-scroll-tall');
+
+        if (this.filteredOut.length > 0) {
+            this.createHeader(scrollContainer, `Left out (${this.filteredOut.length})`, 'border-orange');
+            for (const { note, reason } of this.filteredOut) {
+                this.createItem(scrollContainer, note, reason);
+            }
+        }
+
+        if (this.matching.length > 0) {
+            this.createHeader(scrollContainer, `Synced (${this.matching.length})`, 'border-green');
+            for (const note of this.matching) {
+                this.createItem(scrollContainer, note);
+            }
+        } else {
+            scrollContainer.createDiv({ text: 'No notes pass the filters', cls: 'supernote-empty-state' });
+        }
+
+        const buttonContainer = contentEl.createDiv('modal-button-container supernote-buttons-right');
+        const closeButton = buttonContainer.createEl('button', { text: 'Close', cls: 'mod-cta' });
+        closeButton.onclick = () => this.close();
+    }
+
+    private createHeader(container: HTMLElement, title: string, borderClass: string): void {
+        new Setting(container)
+            .setHeading()
+            .setName(title)
+            .setClass('supernote-section-header')
+            .settingEl.addClass(borderClass);
+    }
+
+    private createItem(container: HTMLElement, note: SupernoteFile, reason?: string): void {
+        const item = container.createDiv('supernote-trash-item');
+        const info = item.createDiv('supernote-trash-item-info');
+        info.createDiv({ text: note.name, cls: 'supernote-trash-item-name' });
+        info.createDiv({ text: note.path, cls: 'supernote-trash-item-path' });
+        if (reason) {
+            info.createDiv({ text: reason, cls: 'supernote-text-muted' });
+        }
+    }
+
+    private createStatBox(container: HTMLElement, value: string, label: string, colorClass: string): void {
+        const box = container.createDiv('supernote-summary-item');
+        box.createDiv({ text: value, cls: `supernote-summary-count ${colorClass}` });
+        box.createDiv({ text: label, cls: 'supernote-summary-label' });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
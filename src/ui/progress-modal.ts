@@ -0,0 +1,130 @@
+import { App, Modal, Notice, ProgressBarComponent, Setting } from 'obsidian';
+import { ImportFailure, ImportPhase, ProgressCallback } from '../sync/importer';
+
+const PHASE_LABELS: Record<ImportPhase, string> = {
+    download: 'Download',
+    convert: 'Convert',
+    write: 'Write to vault',
+};
+
+interface PhaseRow {
+    bar: ProgressBarComponent;
+    countEl: HTMLElement;
+}
+
+/**
+ * Progress of an import or update, with a bar per phase and a cancel button.
+ * Closing the modal doesn't stop the sync; its progress stays in the status bar.
+ */
+export class ImportProgressModal extends Modal {
+    private heading: string;
+    private phases: ImportPhase[];
+    private onCancel: () => void;
+    private rows = new Map<ImportPhase, PhaseRow>();
+    private messageEl: HTMLElement;
+    private countsEl: HTMLElement;
+    private cancelButton: HTMLButtonElement;
+    private closed = false;
+
+    /**
+     * @param phases Phases to show a bar for, in order (updates only write)
+     */
+    constructor(app: App, heading: string, phases: ImportPhase[], onCancel: () => void) {
+        super(app);
+        this.heading = heading;
+        this.phases = phases;
+        this.onCancel = onCancel;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.modalEl.addClass('supernote-modal-medium');
+        this.titleEl.setText(this.heading);
+
+        this.messageEl = contentEl.createDiv({ text: 'Starting...', cls: 'supernote-progress-message' });
+
+        for (const phase of this.phases) {
+            const rowEl = contentEl.createDiv('supernote-progress-row');
+            rowEl.createSpan({ text: PHASE_LABELS[phase], cls: 'supernote-progress-label' });
+            const bar = new ProgressBarComponent(rowEl.createDiv('supernote-progress-bar'));
+            const countEl = rowEl.createSpan({ text: '', cls: 'supernote-progress-count' });
+            this.rows.set(phase, { bar, countEl });
+        }
+
+        this.countsEl = contentEl.createDiv('supernote-stats-text');
+
+        const buttonContainer = contentEl.createDiv('modal-button-container supernote-buttons-right');
+        this.cancelButton = buttonContainer.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
+        this.cancelButton.onclick = () => {
+            this.cancelButton.disabled = true;
+            this.cancelButton.setText('Cancelling...');
+            this.messageEl.setText('Cancelling after the current note...');
+            this.onCancel();
+        };
+    }
+
+    /**
+     * Progress callback for the importer. A note done in a phase is also done in
+     * the phases before it, so earlier bars never lag behind later ones.
+     */
+    onProgress: ProgressCallback = (current, total, successCount, failureCount, currentTitle, unchangedCount = 0, phase = 'write') => {
+        if (this.cancelButton?.disabled) return;
+        this.messageEl?.setText(currentTitle);
+
+        const percent = total > 0 ? current / total * 100 : 100;
+        const reached = this.phases.slice(0, this.phases.indexOf(phase) + 1);
+        reached.forEach((other, i) => {
+            const row = this.rows.get(other)!;
+            const isCurrent = i === reached.length - 1;
+            if (!isCurrent && row.bar.getValue() >= percent) return;
+            row.bar.setValue(percent);
+            row.countEl.setText(`${current}/${total}`);
+        });
+
+        const counts = [`${successCount} done`, `${failureCount} failed`];
+        if (unchangedCount > 0) counts.splice(1, 0, `${unchangedCount} unchanged`);
+        this.countsEl?.setText(counts.join(', '));
+    };
+
+    /**
+     * Replace the progress with a summary, listing failures with their errors.
+     * Falls back to a notice if the modal was closed meanwhile.
+     */
+    showSummary(summary: string, failures: ImportFailure[]): void {
+        if (this.closed) {
+            new Notice(failures.length > 0 ? `${summary}\n${failures.length} failed, see the console for details` : summary);
+            return;
+        }
+
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createDiv({ text: summary, cls: 'supernote-description' });
+
+        if (failures.length > 0) {
+            new Setting(contentEl)
+                .setHeading()
+                .setName(`Failed (${failures.length})`)
+                .setClass('supernote-section-header')
+                .settingEl.addClass('border-red');
+
+            const list = contentEl.createDiv('supernote-scroll-container supernote-scroll-short');
+            for (const failure of failures) {
+                const item = list.createDiv('supernote-progress-failure');
+                item.createDiv({ text: failure.note.name, cls: 'supernote-text-bold' });
+                item.createDiv({ text: failure.error, cls: 'supernote-text-error' });
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv('modal-button-container supernote-buttons-right');
+        const closeButton = buttonContainer.createEl('button', { text: 'Close', cls: 'mod-cta' });
+        closeButton.onclick = () => this.close();
+    }
+
+    onClose(): void {
+        this.closed = true;
+        this.contentEl.empty();
+    }
+}
@@ -2,6 +2,14 @@ import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type SupernoteCompanionPlugin from '../main';
 import { FrontmatterField, UpdateMode } from '../api/types';
 import { PdfConverter } from '../api/converter';
+import { DeletionPolicy, ImportMode } from '../settings';
+
+const IMPORT_MODE_OPTIONS: Record<ImportMode, string> = {
+    'pdf-only': 'PDF only (recommended)',
+    'markdown-with-pdf': 'Markdown + PDF attachment',
+    'markdown-with-images': 'Markdown + page images',
+    'markdown-only': 'Markdown only (no PDF)',
+};
 
 /**
  * Settings tab UI for the Supernote Companion plugin
@@ -29,6 +37,12 @@ export class SupernoteSettingTab extends PluginSettingTab {
         // Sync settings
         this.createSyncSettings(containerEl);
 
+        // Folder rules
+        this.createFolderRuleSettings(containerEl);
+
+        // Note filters
+        this.createFilterSettings(containerEl);
+
         // Update behavior settings
         this.createUpdateSettings(containerEl);
 
@@ -69,6 +83,7 @@ export class SupernoteSettingTab extends PluginSettingTab {
                     this.plugin.settings.deviceIp = ip;
                     this.plugin.resetAPIClient();
                     await this.plugin.saveSettings();
+                    this.plugin.restartScheduler();
                 })
             );
 
@@ -122,6 +137,38 @@ export class SupernoteSettingTab extends PluginSettingTab {
                     }
                 })
             );
+
+        // Background sync
+        new Setting(containerEl)
+            .setName('Automatic sync')
+            .setDesc('Import new notes and update unchanged ones in the background whenever the device is reachable')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSync)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSync = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.restartScheduler();
+                    this.display(); // Refresh to show/hide interval setting
+                })
+            );
+
+        if (this.plugin.settings.autoSync) {
+            new Setting(containerEl)
+                .setName('Check interval')
+                .setDesc('Minutes between checks for the device. Checks slow down while it is unreachable.')
+                .addText(text => text
+                    .setPlaceholder('5')
+                    .setValue(this.plugin.settings.autoSyncInterval.toString())
+                    .onChange(async (value) => {
+                        const minutes = parseInt(value, 10);
+                        if (!isNaN(minutes) && minutes > 0) {
+                            this.plugin.settings.autoSyncInterval = minutes;
+                            await this.plugin.saveSettings();
+                            this.plugin.restartScheduler();
+                        }
+                    })
+                );
+        }
     }
 
     private createSyncSettings(containerEl: HTMLElement): void {
@@ -134,11 +181,9 @@ export class SupernoteSettingTab extends PluginSettingTab {
             .setName('Import mode')
             .setDesc('How to import notes from your Supernote')
             .addDropdown(dropdown => dropdown
-                .addOption('pdf-only', 'PDF only (recommended)')
-                .addOption('markdown-with-pdf', 'Markdown + PDF attachment')
-                .addOption('markdown-only', 'Markdown only (no PDF)')
+                .addOptions(IMPORT_MODE_OPTIONS)
                 .setValue(this.plugin.settings.importMode)
-                .onChange(async (value: 'pdf-only' | 'markdown-with-pdf' | 'markdown-only') => {
+                .onChange(async (value: ImportMode) => {
                     this.plugin.settings.importMode = value;
                     await this.plugin.saveSettings();
                     this.display(); // Refresh to show/hide PDF folder setting
@@ -159,7 +204,7 @@ export class SupernoteSettingTab extends PluginSettingTab {
             );
 
         // PDF folder (only shown for markdown-with-pdf mode)
-        if (this.plugin.settings.importMode === 'markdown-with-pdf') {
+        if (this.usesImportMode('markdown-with-pdf')) {
             new Setting(containerEl)
                 .setName('PDF folder')
                 .setDesc('Vault folder where PDF attachments will be stored')
@@ -173,6 +218,21 @@ export class SupernoteSettingTab extends PluginSettingTab {
                 );
         }
 
+        // Attachments folder (page images embedded in markdown)
+        if (this.usesImportMode('markdown-with-pdf', 'markdown-with-images', 'markdown-only')) {
+            new Setting(containerEl)
+                .setName('Attachments folder')
+                .setDesc('Vault folder where page images are stored, in a subfolder per note')
+                .addText(text => text
+                    .setPlaceholder('/Supernote/attachments')
+                    .setValue(this.plugin.settings.attachmentsFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.attachmentsFolder = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        }
+
         // Preserve folder structure
         new Setting(containerEl)
             .setName('Preserve folder structure')
@@ -185,6 +245,38 @@ export class SupernoteSettingTab extends PluginSettingTab {
                 })
             );
 
+        // Deleted notes
+        new Setting(containerEl)
+            .setName('Notes deleted on device')
+            .setDesc('What to do with the vault files of notes deleted on your Supernote. Nothing is removed without confirmation.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep in vault')
+                .addOption('mark', 'Mark as deleted in frontmatter')
+                .addOption('archive', 'Move to archive folder')
+                .addOption('trash', 'Move to trash')
+                .setValue(this.plugin.settings.deletionPolicy)
+                .onChange(async (value: DeletionPolicy) => {
+                    this.plugin.settings.deletionPolicy = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide archive folder setting
+                })
+            );
+
+        // Archive folder (only shown for the archive policy)
+        if (this.plugin.settings.deletionPolicy === 'archive') {
+            new Setting(containerEl)
+                .setName('Archive folder')
+                .setDesc('Vault folder where files of deleted notes are moved, keeping their vault paths')
+                .addText(text => text
+                    .setPlaceholder('/Supernote/archive')
+                    .setValue(this.plugin.settings.archiveFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.archiveFolder = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        }
+
         // Filename template
         new Setting(containerEl)
             .setName('Filename template')
@@ -220,6 +312,229 @@ export class SupernoteSettingTab extends PluginSettingTab {
         }
     }
 
+    private createFolderRuleSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setHeading()
+            .setName('Folder rules')
+            .setDesc('Import notes from matching device folders to their own vault folder, with their own import mode, filename template and tags. The first matching rule applies.');
+
+        const rules = this.plugin.settings.folderRules;
+        rules.forEach((rule, index) => {
+            const ruleEl = containerEl.createDiv('supernote-fields-container supernote-folder-rule');
+
+            new Setting(ruleEl)
+                .setName('Device folders')
+                .setDesc('Pattern on the device path, where ** matches any subfolders and * any name')
+                .addText(text => text
+                    .setPlaceholder('E.g. /Note/Work/**')
+                    .setValue(rule.pattern)
+                    .onChange(async (value) => {
+                        rule.pattern = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(async () => {
+                        rules.splice(index - 1, 0, ...rules.splice(index, 1));
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                )
+                .addExtraButton(button => button
+                    .setIcon('trash-2')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        rules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+
+            new Setting(ruleEl)
+                .setName('Vault folder')
+                .setDesc('Where matching notes are stored; subfolders below the pattern are kept when preserving folder structure')
+                .addText(text => text
+                    .setPlaceholder('Journal')
+                    .setValue(rule.folder)
+                    .onChange(async (value) => {
+                        // The vault root would make every file in the vault count as a synced note
+                        const isRoot = value.trim().replace(/^\/+|\/+$/g, '') === '';
+                        text.inputEl.toggleClass('supernote-input-invalid', isRoot);
+                        text.inputEl.title = isRoot ? 'Enter a folder; rules cannot import to the vault root' : '';
+                        if (isRoot) return;
+
+                        rule.folder = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+                );
+
+            new Setting(ruleEl)
+                .setName('Import mode')
+                .addDropdown(dropdown => dropdown
+                    .addOptions(IMPORT_MODE_OPTIONS)
+                    .setValue(rule.importMode)
+                    .onChange(async (value: ImportMode) => {
+                        rule.importMode = value;
+                        await this.plugin.saveSettings();
+                        this.display(); // Refresh to show/hide markdown options
+                    })
+                );
+
+            new Setting(ruleEl)
+                .setName('Filename template')
+                .setDesc('Leave empty to use the general filename template')
+                .addText(text => text
+                    .setPlaceholder(this.plugin.settings.filenameTemplate)
+                    .setValue(rule.filenameTemplate)
+                    .onChange(async (value) => {
+                        rule.filenameTemplate = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+                );
+
+            new Setting(ruleEl)
+                .setName('Tags')
+                .setDesc('Comma-separated tags added to matching markdown notes')
+                .addText(text => text
+                    .setPlaceholder('Journal, meetings')
+                    .setValue(rule.tags.join(', '))
+                    .onChange(async (value) => {
+                        rule.tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Catch-all: the general sync settings
+        new Setting(containerEl)
+            .setName('All other notes')
+            .setDesc('Notes matching no rule use the notes folder, import mode and filename template above')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    rules.push({
+                        pattern: '',
+                        folder: this.plugin.settings.notesFolder,
+                        importMode: this.plugin.settings.importMode,
+                        filenameTemplate: '',
+                        tags: [],
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+    }
+
+    private createFilterSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setHeading()
+            .setName('Note filters')
+            .setDesc('Leave notes on the device out of sync status, import, update and bulk export, like trashed notes. Empty filters include every note.');
+
+        const filters = this.plugin.settings.noteFilters;
+
+        this.addPatternList(containerEl, 'Include folders',
+            'Only sync notes whose device path matches one of these patterns, one per line. ** matches any subfolders and * any name.',
+            'E.g. /Note/Work/**', filters.includePaths, value => { filters.includePaths = value; });
+
+        this.addPatternList(containerEl, 'Exclude folders',
+            'Never sync notes whose device path matches one of these patterns, one per line',
+            'E.g. /Note/Templates/**', filters.excludePaths, value => { filters.excludePaths = value; });
+
+        this.addPatternList(containerEl, 'Include names',
+            'Only sync notes whose name matches one of these regular expressions, one per line (case-insensitive)',
+            'E.g. ^meeting', filters.includeNames, value => { filters.includeNames = value; });
+
+        this.addPatternList(containerEl, 'Exclude names',
+            'Never sync notes whose name matches one of these regular expressions, one per line (case-insensitive)',
+            'E.g. ^template', filters.excludeNames, value => { filters.excludeNames = value; });
+
+        new Setting(containerEl)
+            .setName('Size')
+            .setDesc('Smallest and largest notes to sync, in KB. Leave empty for no bound.')
+            .addText(text => text
+                .setPlaceholder('Min')
+                .setValue(filters.minSizeKb > 0 ? String(filters.minSizeKb) : '')
+                .onChange(async (value) => {
+                    const size = parseInt(value, 10);
+                    filters.minSizeKb = !isNaN(size) && size > 0 ? size : 0;
+                    await this.plugin.saveSettings();
+                })
+            )
+            .addText(text => text
+                .setPlaceholder('Max')
+                .setValue(filters.maxSizeKb > 0 ? String(filters.maxSizeKb) : '')
+                .onChange(async (value) => {
+                    const size = parseInt(value, 10);
+                    filters.maxSizeKb = !isNaN(size) && size > 0 ? size : 0;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Modified between')
+            .setDesc('Only sync notes last modified from the first day to the second, written as 2024-01-31. Leave empty for no bound.')
+            .addText(text => text
+                .setPlaceholder('From')
+                .setValue(filters.modifiedAfter)
+                .onChange(async (value) => {
+                    filters.modifiedAfter = value.trim();
+                    await this.plugin.saveSettings();
+                })
+            )
+            .addText(text => text
+                .setPlaceholder('To')
+                .setValue(filters.modifiedBefore)
+                .onChange(async (value) => {
+                    filters.modifiedBefore = value.trim();
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Preview filters')
+            .setDesc('List the notes on the device the filters sync and those they leave out')
+            .addButton(button => button
+                .setButtonText('Preview matching notes')
+                .onClick(() => { void this.plugin.previewNoteFilters(); })
+            );
+    }
+
+    /**
+     * Setting with a text area holding one pattern per line
+     */
+    private addPatternList(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        placeholder: string,
+        patterns: string[],
+        onChange: (patterns: string[]) => void
+    ): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addTextArea(text => text
+                .setPlaceholder(placeholder)
+                .setValue(patterns.join('\n'))
+                .onChange(async (value) => {
+                    onChange(value.split('\n').map(line => line.trim()).filter(Boolean));
+                    await this.plugin.saveSettings();
+                })
+            );
+    }
+
+    /**
+     * Whether notes are imported in one of the modes, generally or by a folder rule
+     */
+    private usesImportMode(...modes: ImportMode[]): boolean {
+        return [this.plugin.settings.importMode, ...this.plugin.settings.folderRules.map(rule => rule.importMode)]
+            .some(mode => modes.includes(mode));
+    }
+
     private createUpdateSettings(containerEl: HTMLElement): void {
         new Setting(containerEl)
             .setHeading()
@@ -330,7 +645,7 @@ export class SupernoteSettingTab extends PluginSettingTab {
 
     private createExportSettings(containerEl: HTMLElement): void {
         // Only show export options for markdown modes
-        if (this.plugin.settings.importMode === 'pdf-only') {
+        if (!this.usesImportMode('markdown-with-pdf', 'markdown-with-images', 'markdown-only')) {
             return;
         }
 
@@ -339,7 +654,7 @@ export class SupernoteSettingTab extends PluginSettingTab {
             .setName('Markdown options');
 
         // Attach PDF (only for markdown-with-pdf mode)
-        if (this.plugin.settings.importMode === 'markdown-with-pdf') {
+        if (this.usesImportMode('markdown-with-pdf')) {
             new Setting(containerEl)
                 .setName('Attach PDF')
                 .setDesc('Convert .note files to PDF and attach them to note entries')
@@ -352,10 +667,23 @@ export class SupernoteSettingTab extends PluginSettingTab {
                 );
         }
 
+        // Note template
+        new Setting(containerEl)
+            .setName('Note template')
+            .setDesc('Vault path of a markdown file laying out generated notes, with fields like {{name}} and {{#each pages}} blocks (leave empty for the built-in layout)')
+            .addText(text => text
+                .setPlaceholder('Templates/Supernote.md')
+                .setValue(this.plugin.settings.noteTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.noteTemplate = value.trim();
+                    await this.plugin.saveSettings();
+                })
+            );
+
         // Include thumbnail
         new Setting(containerEl)
             .setName('Include thumbnail')
-            .setDesc('Embed a thumbnail preview image in the note (not available from device API yet)')
+            .setDesc('Add a thumbnail of the first page to the note and show thumbnails in note lists (downloads notes to render them)')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.includeThumbnail)
                 .onChange(async (value) => {
@@ -363,6 +691,32 @@ export class SupernoteSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 })
             );
+
+        // Include transcription
+        new Setting(containerEl)
+            .setName('Include transcription')
+            .setDesc('Add handwriting recognized on the device to the note, one section per page (requires real-time recognition on the Supernote)')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.includeTranscription)
+                .onChange(async (value) => {
+                    this.plugin.settings.includeTranscription = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Include vector pages (page images mode always embeds PNGs)
+        if (this.usesImportMode('markdown-with-pdf', 'markdown-only')) {
+            new Setting(containerEl)
+                .setName('Include vector pages')
+                .setDesc('Embed each page as a vector image drawn from the pen strokes, which stays sharp at any zoom level')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.includeVectorPages)
+                    .onChange(async (value) => {
+                        this.plugin.settings.includeVectorPages = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        }
     }
 
     private createAdvancedSettings(containerEl: HTMLElement): void {
@@ -492,12 +846,12 @@ export class SupernoteSettingTab extends PluginSettingTab {
         // Clear trash
         new Setting(advancedContent)
             .setName('Clear trashed notes')
-            .setDesc(`${this.plugin.settings.trashedNoteIds.length} note(s) currently in trash`)
+            .setDesc(`${this.plugin.settings.trash.length} trash rule(s) currently excluding notes`)
             .addButton(button => button
                 .setButtonText('Clear trash')
                 .setWarning()
                 .onClick(async () => {
-                    this.plugin.settings.trashedNoteIds = [];
+                    this.plugin.settings.trash = [];
                     await this.plugin.saveSettings();
                     new Notice('Trash cleared. All notes will appear in future syncs.');
                     this.display(); // Refresh to update count
@@ -0,0 +1,80 @@
+/**
+ * Status bar item showing whether the device is reachable, how many notes
+ * are waiting to be synced, and the progress of a running sync.
+ */
+export class SyncStatusBar {
+    private el: HTMLElement;
+    private connected: boolean | null = null;    // null until the device was contacted
+    private newCount: number | null = null;
+    private updatedCount: number | null = null;
+    private activity: string | null = null;
+    private lastSync = 0;
+
+    constructor(el: HTMLElement, onClick: () => void) {
+        this.el = el;
+        this.el.addClass('mod-clickable', 'supernote-status-bar');
+        this.el.addEventListener('click', onClick);
+        this.render();
+    }
+
+    setConnected(connected: boolean): void {
+        this.connected = connected;
+        this.render();
+    }
+
+    /**
+     * Show the counts of the last sync status check
+     */
+    setCounts(newCount: number, updatedCount: number): void {
+        this.connected = true;
+        this.newCount = newCount;
+        this.updatedCount = updatedCount;
+        this.render();
+    }
+
+    /**
+     * Take imported and updated notes off the counts after a sync
+     */
+    reduceCounts(imported: number, updated: number): void {
+        if (this.newCount !== null) this.newCount = Math.max(0, this.newCount - imported);
+        if (this.updatedCount !== null) this.updatedCount = Math.max(0, this.updatedCount - updated);
+        this.render();
+    }
+
+    /**
+     * Show a running sync (e.g. "importing 3/10"), or null once it has finished
+     */
+    setActivity(activity: string | null): void {
+        this.activity = activity;
+        this.render();
+    }
+
+    setLastSync(timestamp: number): void {
+        this.lastSync = timestamp;
+        this.render();
+    }
+
+    private render(): void {
+        let text: string;
+        if (this.activity) {
+            text = `Supernote: ${this.activity}`;
+        } else if (this.connected === false) {
+            text = 'Supernote: disconnected';
+        } else if (this.newCount !== null && this.updatedCount !== null) {
+            text = this.newCount + this.updatedCount === 0
+                ? 'Supernote: up to date'
+                : `Supernote: ${this.newCount} new, ${this.updatedCount} updated`;
+        } else if (this.connected) {
+            text = 'Supernote: connected';
+        } else {
+            text = 'Supernote';
+        }
+
+        this.el.toggleClass('supernote-status-bar-offline', this.connected === false);
+        this.el.setText(text);
+
+        const lastSync = this.lastSync > 0 ? new Date(this.lastSync).toLocaleString() : 'never';
+        this.el.setAttribute('aria-label', `Last sync: ${lastSync}\nClick to check sync status`);
+        this.el.setAttribute('data-tooltip-position', 'top');
+    }
+}
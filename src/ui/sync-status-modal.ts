@@ -1,16 +1,20 @@
 import { App, Modal, Setting } from 'obsidian';
 import { SupernoteFile, SyncStatus } from '../api/types';
 import { formatFileSize } from '../utils/markdown';
+import { LazyThumbnails, ThumbnailSource } from './thumbnails';
 
 /**
  * Read-only modal displaying the current sync status
  */
 export class SyncStatusModal extends Modal {
     private status: SyncStatus;
+    private thumbnailSource?: ThumbnailSource;
+    private thumbnails?: LazyThumbnails;
 
-    constructor(app: App, status: SyncStatus) {
+    constructor(app: App, status: SyncStatus, thumbnailSource?: ThumbnailSource) {
         super(app);
         this.status = status;
+        this.thumbnailSource = thumbnailSource;
     }
 
     onOpen(): void {
@@ -22,13 +26,23 @@ export class SyncStatusModal extends Modal {
         this.titleEl.setText('Sync status');
 
         // Summary section
-        const total = this.status.new.length + this.status.updated.length + this.status.synced.length;
+        const total = this.status.new.length + this.status.updated.length + this.status.synced.length + this.status.moved.length;
         const summaryEl = contentEl.createDiv('supernote-summary');
 
         this.createStatBox(summaryEl, String(total), 'Total notes');
         this.createStatBox(summaryEl, String(this.status.new.length), 'New', 'supernote-text-accent');
         this.createStatBox(summaryEl, String(this.status.updated.length), 'Updated', 'supernote-text-orange');
         this.createStatBox(summaryEl, String(this.status.synced.length), 'Synced', 'supernote-text-green');
+        if (this.status.moved.length > 0) {
+            this.createStatBox(summaryEl, String(this.status.moved.length), 'Moved', 'supernote-text-purple');
+        }
+        if (this.status.deleted.length > 0) {
+            this.createStatBox(summaryEl, String(this.status.deleted.length), 'Deleted', 'supernote-text-error');
+        }
+
+        if (this.thumbnailSource) {
+            this.thumbnails = new LazyThumbnails(this.thumbnailSource);
+        }
 
         // Scrollable content area
         const scrollContainer = contentEl.createDiv('supernote-scroll-container supernote-scroll-tall');
@@ -43,6 +57,16 @@ export class SyncStatusModal extends Modal {
             this.createSection(scrollContainer, 'Updated notes', this.status.updated, 'border-orange');
         }
 
+        // Moved notes section (vault files follow on the next import or update)
+        if (this.status.moved.length > 0) {
+            this.createSection(scrollContainer, 'Moved on device', this.status.moved, 'border-purple');
+        }
+
+        // Deleted notes section (handled by the "Handle notes deleted on device" command)
+        if (this.status.deleted.length > 0) {
+            this.createSection(scrollContainer, 'Deleted on device', this.status.deleted, 'border-red');
+        }
+
         // Synced notes section (collapsed by default)
         if (this.status.synced.length > 0) {
             this.createCollapsibleSection(scrollContainer, 'Already synced', this.status.synced, 'border-green');
@@ -117,10 +141,16 @@ export class SyncStatusModal extends Modal {
                 row.addClass('is-striped');
             }
 
-            // Name
+            // Name (with thumbnail, if enabled)
             const nameCell = row.insertCell();
-            nameCell.textContent = note.name;
             nameCell.addClass('supernote-cell-name');
+            if (this.thumbnails) {
+                nameCell.addClass('supernote-cell-with-thumbnail');
+                this.thumbnails.add(nameCell, note);
+                nameCell.createSpan({ text: note.name });
+            } else {
+                nameCell.textContent = note.name;
+            }
 
             // Path
             const pathCell = row.insertCell();
@@ -169,6 +199,7 @@ export class SyncStatusModal extends Modal {
     }
 
     onClose(): void {
+        this.thumbnails?.stop();
         this.contentEl.empty();
     }
 }
@@ -0,0 +1,72 @@
+import { SupernoteFile } from '../api/types';
+
+/**
+ * Resolves a note to an image URL for its thumbnail, or null if none is available
+ */
+export type ThumbnailSource = (note: SupernoteFile) => Promise<string | null>;
+
+/**
+ * Loads thumbnails for table rows as they scroll into view.
+ * Loads run one at a time, since each may download a note from the device.
+ */
+export class LazyThumbnails {
+    private source: ThumbnailSource;
+    private observer: IntersectionObserver;
+    private pending = new Map<Element, SupernoteFile>();
+    private queue: Array<[HTMLElement, SupernoteFile]> = [];
+    private loading = false;
+    private stopped = false;
+
+    constructor(source: ThumbnailSource) {
+        this.source = source;
+        this.observer = new IntersectionObserver(entries => {
+            for (const entry of entries) {
+                const note = this.pending.get(entry.target);
+                if (!entry.isIntersecting || !note) continue;
+
+                this.observer.unobserve(entry.target);
+                this.pending.delete(entry.target);
+                this.queue.push([entry.target as HTMLElement, note]);
+            }
+            void this.processQueue();
+        });
+    }
+
+    /**
+     * Add a thumbnail placeholder to a cell; the image is filled in once visible
+     */
+    add(cell: HTMLElement, note: SupernoteFile): void {
+        const placeholder = cell.createDiv('supernote-thumbnail');
+        this.pending.set(placeholder, note);
+        this.observer.observe(placeholder);
+    }
+
+    /**
+     * Stop loading (call when the modal closes)
+     */
+    stop(): void {
+        this.stopped = true;
+        this.observer.disconnect();
+        this.pending.clear();
+        this.queue = [];
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.loading) return;
+        this.loading = true;
+
+        while (!this.stopped && this.queue.length > 0) {
+            const [placeholder, note] = this.queue.shift()!;
+            try {
+                const url = await this.source(note);
+                if (url && !this.stopped) {
+                    placeholder.createEl('img', { attr: { src: url, alt: '' } });
+                }
+            } catch (error) {
+                console.debug(`[thumbnails] No thumbnail for ${note.name}:`, error);
+            }
+        }
+
+        this.loading = false;
+    }
+}
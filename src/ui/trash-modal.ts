@@ -1,25 +1,41 @@
-import { App, Modal, Notice } from 'obsidian';
+import { App, Modal, Notice, Setting, TextComponent } from 'obsidian';
 import { SupernoteFile } from '../api/types';
+import { TrashRule, TrashRuleType } from '../settings';
+import { matchesTrashRule } from '../utils/filters';
+
+const RULE_TYPE_LABELS: Record<TrashRuleType, string> = {
+    note: 'Note',
+    folder: 'Folder',
+    pattern: 'Pattern',
+};
 
 /**
- * Modal for managing trashed (excluded) notes
+ * Modal for managing trashed (excluded) notes: single notes, device folders
+ * and path patterns
  */
 export class TrashManagementModal extends Modal {
-    private trashedIds: string[];
-    private trashedNotes: SupernoteFile[];
-    private onRestore: (noteId: string) => void;
+    private trash: TrashRule[];
+    private deviceNotes: SupernoteFile[] | null;
+    private onAdd: (rule: TrashRule) => void;
+    private onRestore: (rule: TrashRule) => void;
     private onRestoreAll: () => void;
+    private bodyEl: HTMLElement;
 
+    /**
+     * @param deviceNotes Notes on the device, to count the notes each rule hides; null when offline
+     */
     constructor(
         app: App,
-        trashedIds: string[],
-        trashedNotes: SupernoteFile[],
-        onRestore: (noteId: string) => void,
+        trash: TrashRule[],
+        deviceNotes: SupernoteFile[] | null,
+        onAdd: (rule: TrashRule) => void,
+        onRestore: (rule: TrashRule) => void,
         onRestoreAll: () => void
     ) {
         super(app);
-        this.trashedIds = trashedIds;
-        this.trashedNotes = trashedNotes;
+        this.trash = [...trash];
+        this.deviceNotes = deviceNotes;
+        this.onAdd = onAdd;
         this.onRestore = onRestore;
         this.onRestoreAll = onRestoreAll;
     }
@@ -34,38 +50,14 @@ export class TrashManagementModal extends Modal {
 
         // Description
         contentEl.createEl('p', {
-            text: 'These notes have been excluded from sync. Restore them to include them in future syncs.',
+            text: 'Notes matching these rules are excluded from sync. Restore a rule to include its notes in future syncs.',
             cls: 'supernote-description-block'
         });
 
-        // Count
-        const countEl = contentEl.createEl('p', { cls: 'supernote-trash-count' });
-        countEl.createEl('strong', { text: String(this.trashedIds.length) });
-        countEl.appendText(' note(s) currently trashed');
+        this.createAddRule(contentEl);
 
-        if (this.trashedIds.length === 0) {
-            const emptyEl = contentEl.createDiv('supernote-empty-state');
-            const iconEl = emptyEl.createDiv('supernote-empty-state-icon');
-            iconEl.setText('Bin is empty');
-            emptyEl.createDiv({ text: 'No notes in trash' });
-        } else {
-            // Scrollable list container
-            const listContainer = contentEl.createDiv('supernote-scroll-container supernote-scroll-short');
-            this.createTrashList(listContainer);
-
-            // Restore all button
-            const restoreAllContainer = contentEl.createDiv('supernote-restore-all-container');
-
-            const restoreAllBtn = restoreAllContainer.createEl('button', {
-                text: 'Restore all',
-                cls: 'mod-cta'
-            });
-            restoreAllBtn.onclick = () => {
-                this.onRestoreAll();
-                new Notice(`Restored ${this.trashedIds.length} note(s)`);
-                this.close();
-            };
-        }
+        this.bodyEl = contentEl.createDiv();
+        this.renderRules();
 
         // Close button
         const buttonContainer = contentEl.createDiv('modal-button-container supernote-buttons-right');
@@ -74,69 +66,139 @@ export class TrashManagementModal extends Modal {
         closeButton.onclick = () => this.close();
     }
 
-    private createTrashList(container: HTMLElement): void {
-        const list = container.createDiv('supernote-trash-list');
+    /**
+     * Form to trash a device folder or path pattern
+     */
+    private createAddRule(container: HTMLElement): void {
+        let type: TrashRuleType = 'folder';
+        let input: TextComponent;
 
-        // If we have note details, show them; otherwise show IDs
-        if (this.trashedNotes.length > 0) {
-            this.trashedNotes.forEach(note => {
-                this.createNoteItem(list, note);
-            });
-        } else {
-            // Fallback to showing just IDs
-            this.trashedIds.forEach(id => {
-                this.createIdItem(list, id);
-            });
+        const add = (): void => {
+            if (this.addRule(type, input.getValue())) {
+                input.setValue('');
+            }
+        };
+
+        new Setting(container)
+            .setName('Add rule')
+            .setDesc('Exclude every note in a device folder, or whose device path matches a pattern where ** matches any subfolders and * any name')
+            .addDropdown(dropdown => dropdown
+                .addOption('folder', RULE_TYPE_LABELS.folder)
+                .addOption('pattern', RULE_TYPE_LABELS.pattern)
+                .setValue(type)
+                .onChange((selected: TrashRuleType) => { type = selected; })
+            )
+            .addText(text => {
+                input = text.setPlaceholder('E.g. /Note/Templates');
+                text.inputEl.onkeydown = (e) => {
+                    if (e.key === 'Enter') add();
+                };
+            })
+            .addButton(button => button
+                .setButtonText('Add')
+                .setCta()
+                .onClick(add)
+            );
+    }
+
+    /**
+     * @returns Whether the rule was added
+     */
+    private addRule(type: TrashRuleType, input: string): boolean {
+        let value = input.trim();
+        if (type === 'folder') {
+            value = '/' + value.replace(/^\/+|\/+$/g, '');
+        }
+        if (value === '' || value === '/') {
+            new Notice(type === 'folder' ? 'Enter a device folder' : 'Enter a pattern');
+            return false;
+        }
+        if (this.trash.some(rule => rule.type === type && rule.value === value)) {
+            new Notice(`Already in trash: ${value}`);
+            return false;
         }
+
+        const rule: TrashRule = { type, value, label: value, trashedAt: Date.now() };
+        this.trash.push(rule);
+        this.onAdd(rule);
+        new Notice(`Trashed: ${value}`);
+        this.renderRules();
+        return true;
     }
 
-    private createNoteItem(container: HTMLElement, note: SupernoteFile): void {
-        const item = container.createDiv('supernote-trash-item');
+    private renderRules(): void {
+        this.bodyEl.empty();
 
-        // Note info
-        const infoDiv = item.createDiv('supernote-trash-item-info');
+        // Count
+        const countEl = this.bodyEl.createEl('p', { cls: 'supernote-trash-count' });
+        countEl.createEl('strong', { text: String(this.trash.length) });
+        countEl.appendText(' rule(s) currently in trash');
+        if (this.deviceNotes) {
+            const hidden = this.deviceNotes.filter(note => this.trash.some(rule => matchesTrashRule(note, rule)));
+            countEl.appendText(`, hiding ${hidden.length} note(s) on the device`);
+        }
 
-        infoDiv.createEl('div', { text: note.name, cls: 'supernote-trash-item-name' });
-        infoDiv.createEl('div', { text: note.path, cls: 'supernote-trash-item-path' });
+        if (this.trash.length === 0) {
+            const emptyEl = this.bodyEl.createDiv('supernote-empty-state');
+            const iconEl = emptyEl.createDiv('supernote-empty-state-icon');
+            iconEl.setText('Bin is empty');
+            emptyEl.createDiv({ text: 'No notes in trash' });
+            return;
+        }
 
-        // Restore button
-        const restoreBtn = item.createEl('button', { text: 'Restore', cls: 'supernote-restore-btn' });
-        restoreBtn.onclick = () => {
-            this.onRestore(note.id);
-            item.remove();
-            new Notice(`Restored: ${note.name}`);
-
-            // Update count and check if empty
-            this.trashedIds = this.trashedIds.filter(id => id !== note.id);
-            if (this.trashedIds.length === 0) {
-                this.close();
-                new Notice('All notes restored');
-            }
+        // Scrollable list container
+        const listContainer = this.bodyEl.createDiv('supernote-scroll-container supernote-scroll-short');
+        const list = listContainer.createDiv('supernote-trash-list');
+        this.trash.forEach(rule => {
+            this.createRuleItem(list, rule);
+        });
+
+        // Restore all button
+        const restoreAllContainer = this.bodyEl.createDiv('supernote-restore-all-container');
+
+        const restoreAllBtn = restoreAllContainer.createEl('button', {
+            text: 'Restore all',
+            cls: 'mod-cta'
+        });
+        restoreAllBtn.onclick = () => {
+            this.onRestoreAll();
+            new Notice(`Restored ${this.trash.length} rule(s)`);
+            this.close();
         };
     }
 
-    private createIdItem(container: HTMLElement, id: string): void {
+    private createRuleItem(container: HTMLElement, rule: TrashRule): void {
         const item = container.createDiv('supernote-trash-item');
 
-        // ID info
+        // Rule info
         const infoDiv = item.createDiv('supernote-trash-item-info');
 
-        infoDiv.createEl('div', { text: `ID: ${this.truncateId(id)}`, cls: 'supernote-trash-item-id' });
-        infoDiv.title = id;
+        if (rule.label) {
+            infoDiv.createEl('div', { text: rule.label, cls: 'supernote-trash-item-name' });
+        } else {
+            // Notes trashed by earlier versions, not on the device since
+            infoDiv.createEl('div', { text: `ID: ${this.truncateId(rule.value)}`, cls: 'supernote-trash-item-id' });
+        }
+        infoDiv.title = rule.value;
+
+        const details = [RULE_TYPE_LABELS[rule.type]];
+        if (rule.trashedAt > 0) {
+            details.push(`trashed ${new Date(rule.trashedAt).toLocaleDateString()}`);
+        }
+        if (this.deviceNotes) {
+            const hidden = this.deviceNotes.filter(note => matchesTrashRule(note, rule)).length;
+            details.push(`hides ${hidden} note(s)`);
+        }
+        infoDiv.createEl('div', { text: details.join(' · '), cls: 'supernote-trash-item-path' });
 
         // Restore button
         const restoreBtn = item.createEl('button', { text: 'Restore', cls: 'supernote-restore-btn' });
         restoreBtn.onclick = () => {
-            this.onRestore(id);
-            item.remove();
-            new Notice(`Restored note ID: ${this.truncateId(id)}`);
-
-            // Update count and check if empty
-            this.trashedIds = this.trashedIds.filter(i => i !== id);
-            if (this.trashedIds.length === 0) {
-                this.close();
-                new Notice('All notes restored');
-            }
+            this.onRestore(rule);
+            new Notice(`Restored: ${rule.label || this.truncateId(rule.value)}`);
+
+            this.trash = this.trash.filter(other => other !== rule);
+            this.renderRules();
         };
     }
 
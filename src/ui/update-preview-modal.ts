@@ -1,5 +1,6 @@
-import { App, Modal, Setting } from 'obsidian';
-import { NoteUpdatePreview, UpdateOptions } from '../api/types';
+import { App, Modal, Setting, setIcon } from 'obsidian';
+import { NoteUpdatePreview, UpdateOptions, UpdatePreview } from '../api/types';
+import { withContext } from '../utils/diff';
 
 /**
  * Modal showing a preview of what will change during an update
@@ -69,6 +70,15 @@ export class UpdatePreviewModal extends Modal {
             cls: 'supernote-text-accent'
         });
 
+        const overwriting = this.notePreviews.filter(p => p.preview.overwritesLocalEdits).length;
+        if (overwriting > 0) {
+            statsEl.createSpan({
+                text: ` - ${overwriting} file(s) edited in the vault will lose those edits`,
+                cls: 'supernote-text-warning'
+            });
+        }
+        statsEl.createDiv({ text: 'Click a row to see its changes.', cls: 'setting-item-description' });
+
         // Scrollable table container
         const tableContainer = contentEl.createDiv('supernote-scroll-container');
         tableContainer.appendChild(this.createPreviewTable());
@@ -99,7 +109,7 @@ export class UpdatePreviewModal extends Modal {
         // Header
         const thead = table.createTHead();
         const headerRow = thead.insertRow();
-        const headers = ['File', 'Frontmatter changes', 'Content', 'Custom fields'];
+        const headers = ['File', 'Frontmatter changes', 'Content', 'Changed pages', 'Custom fields'];
 
         headers.forEach(headerText => {
             const th = document.createElement('th');
@@ -116,11 +126,16 @@ export class UpdatePreviewModal extends Modal {
                 row.addClass('is-striped');
             }
 
-            // File name
+            // File name (flagged when local edits would be overwritten)
             const fileCell = row.insertCell();
-            fileCell.textContent = preview.note.name;
             fileCell.title = preview.note.name;
             fileCell.addClass('supernote-cell-truncate');
+            if (preview.preview.overwritesLocalEdits) {
+                const warning = fileCell.createSpan('supernote-preview-warning');
+                setIcon(warning, 'alert-triangle');
+                warning.setAttribute('aria-label', 'Edited in the vault since the last sync, these edits will be overwritten');
+            }
+            fileCell.createSpan({ text: preview.note.name });
 
             // Frontmatter changes
             const fmCell = row.insertCell();
@@ -150,6 +165,23 @@ export class UpdatePreviewModal extends Modal {
                 contentCell.addClass('supernote-text-muted');
             }
 
+            // Changed pages
+            const pagesCell = row.insertCell();
+            const changedPages = preview.preview.changedPages;
+
+            if (changedPages === undefined) {
+                pagesCell.textContent = '-';
+                pagesCell.addClass('supernote-text-muted');
+            } else if (changedPages.length === 0) {
+                pagesCell.textContent = 'None';
+                pagesCell.addClass('supernote-text-muted');
+            } else {
+                const pagesText = this.formatPageRanges(changedPages);
+                pagesCell.createSpan({ text: pagesText, cls: 'supernote-text-orange' });
+                pagesCell.title = pagesText;
+                pagesCell.addClass('supernote-cell-truncate');
+            }
+
             // Custom fields preserved
             const customCell = row.insertCell();
 
@@ -165,11 +197,80 @@ export class UpdatePreviewModal extends Modal {
                 customCell.textContent = '-';
                 customCell.addClass('supernote-text-muted');
             }
+
+            // Details (frontmatter values and body diff), shown on click
+            if (!preview.preview.hasChanges) return;
+
+            const detailsRow = tbody.insertRow();
+            detailsRow.addClass('supernote-preview-details');
+            const detailsCell = detailsRow.insertCell();
+            detailsCell.colSpan = headers.length;
+            this.renderDetails(detailsCell, preview.preview);
+
+            row.addClass('supernote-preview-row');
+            row.onclick = () => {
+                detailsRow.toggleClass('is-open', !detailsRow.hasClass('is-open'));
+            };
         });
 
         return table;
     }
 
+    /**
+     * Old and new frontmatter values, and the changed lines of the body
+     */
+    private renderDetails(container: HTMLElement, preview: UpdatePreview): void {
+        if (preview.frontmatterChanges.length > 0) {
+            const list = container.createDiv('supernote-preview-fields');
+            for (const change of preview.frontmatterChanges) {
+                const item = list.createDiv('supernote-preview-field');
+                item.createSpan({ text: `${change.field}: `, cls: 'supernote-text-bold' });
+                item.createSpan({ text: this.formatValue(change.oldValue), cls: 'supernote-diff-removed' });
+                item.createSpan({ text: ' → ' });
+                item.createSpan({ text: this.formatValue(change.newValue), cls: 'supernote-diff-added' });
+            }
+        }
+
+        if (preview.bodyDiff) {
+            const diffEl = container.createEl('pre', { cls: 'supernote-diff' });
+            for (const line of withContext(preview.bodyDiff)) {
+                if (!line) {
+                    diffEl.createDiv({ text: '…', cls: 'supernote-diff-skipped' });
+                    continue;
+                }
+                const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+                diffEl.createDiv({ text: prefix + line.text, cls: `supernote-diff-${line.type}` });
+            }
+        }
+    }
+
+    private formatValue(value: unknown): string {
+        if (value === undefined || value === null || value === '') return '(none)';
+        if (Array.isArray(value)) return `[${value.map(item => String(item)).join(', ')}]`;
+        if (typeof value === 'object') return JSON.stringify(value);
+        return String(value as string | number | boolean);
+    }
+
+    /**
+     * Format sorted page numbers compactly, e.g. [1, 2, 3, 7] -> "1-3, 7"
+     */
+    private formatPageRanges(pages: number[]): string {
+        const ranges: string[] = [];
+        let start = pages[0];
+        let end = pages[0];
+
+        for (let i = 1; i <= pages.length; i++) {
+            if (i < pages.length && pages[i] === end + 1) {
+                end = pages[i];
+                continue;
+            }
+            ranges.push(start === end ? String(start) : `${start}-${end}`);
+            start = end = pages[i];
+        }
+
+        return ranges.join(', ');
+    }
+
     private getUpdateModeLabel(): string {
         switch (this.updateOptions.mode) {
             case 'all': return 'Update everything';
@@ -0,0 +1,9 @@
+/**
+ * Thrown when the user cancels a running import or update
+ */
+export class CancelledError extends Error {
+    constructor() {
+        super('Cancelled');
+        this.name = 'CancelledError';
+    }
+}
@@ -0,0 +1,97 @@
+import { DiffLine } from '../api/types';
+
+// Above this many line comparisons, the changed middle is shown as replaced wholesale
+const MAX_DIFF_CELLS = 2000 * 2000;
+
+/**
+ * Line diff of two texts (longest common subsequence). Common leading and
+ * trailing lines are matched first, so small edits to long notes stay cheap.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const result: DiffLine[] = oldLines.slice(0, start).map(text => ({ type: 'same', text }));
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+
+    if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+        oldMiddle.forEach(text => result.push({ type: 'removed', text }));
+        newMiddle.forEach(text => result.push({ type: 'added', text }));
+    } else {
+        result.push(...diffMiddle(oldMiddle, newMiddle));
+    }
+
+    oldLines.slice(oldEnd).forEach(text => result.push({ type: 'same', text }));
+    return result;
+}
+
+/**
+ * Keep only changed lines and up to `context` unchanged lines around them.
+ * Skipped runs are replaced by a null entry.
+ */
+export function withContext(diff: DiffLine[], context: number = 2): Array<DiffLine | null> {
+    const keep = new Array<boolean>(diff.length).fill(false);
+    diff.forEach((line, index) => {
+        if (line.type === 'same') return;
+        for (let i = Math.max(0, index - context); i <= Math.min(diff.length - 1, index + context); i++) {
+            keep[i] = true;
+        }
+    });
+
+    const result: Array<DiffLine | null> = [];
+    diff.forEach((line, index) => {
+        if (keep[index]) {
+            result.push(line);
+        } else if (result.length === 0 || result[result.length - 1] !== null) {
+            result.push(null);
+        }
+    });
+    return result;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+    const rows = oldLines.length + 1;
+    const cols = newLines.length + 1;
+
+    // lengths[i * cols + j]: LCS length of oldLines[i..] and newLines[j..]
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lengths[i * cols + j] = oldLines[i] === newLines[j]
+                ? lengths[(i + 1) * cols + j + 1] + 1
+                : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length && j < newLines.length) {
+        if (oldLines[i] === newLines[j]) {
+            result.push({ type: 'same', text: oldLines[i] });
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+            result.push({ type: 'removed', text: oldLines[i++] });
+        } else {
+            result.push({ type: 'added', text: newLines[j++] });
+        }
+    }
+    while (i < oldLines.length) result.push({ type: 'removed', text: oldLines[i++] });
+    while (j < newLines.length) result.push({ type: 'added', text: newLines[j++] });
+
+    return result;
+}
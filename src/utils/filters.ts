@@ -1,63 +1,145 @@
 import { SupernoteFile } from '../api/types';
+import { NoteFilters, TrashRule } from '../settings';
+import { matchesGlob } from './glob';
+import { formatFileSize } from './markdown';
+
+/**
+ * Filters applied to the notes on the device, on top of the trash
+ */
+export interface NoteFilterOptions {
+    excludePatterns?: RegExp[];     // Matched against the note name
+    includePatterns?: RegExp[];
+    excludePaths?: string[];        // Globs on the device path, e.g. "/Note/Templates/**"
+    includePaths?: string[];
+    minSize?: number;               // Bytes
+    maxSize?: number;
+    afterDate?: Date;
+    beforeDate?: Date;
+}
+
+/**
+ * A note left out by the filters, with why
+ */
+export interface FilteredNote {
+    note: SupernoteFile;
+    reason: string;
+}
 
 /**
  * Apply all configured filters to the notes list
  */
 export function filterNotes(
     notes: SupernoteFile[],
-    trashedNoteIds: string[],
-    additionalFilters?: {
-        excludePatterns?: RegExp[];
-        includePatterns?: RegExp[];
-        minSize?: number;
-        maxSize?: number;
-        afterDate?: Date;
-        beforeDate?: Date;
-    }
+    trash: TrashRule[],
+    additionalFilters?: NoteFilterOptions
 ): SupernoteFile[] {
-    let filtered = notes;
-
     // Filter trashed notes
-    filtered = filtered.filter(note => !trashedNoteIds.includes(note.id));
-
-    // Apply additional filters if provided
-    if (additionalFilters) {
-        // Exclude patterns (e.g., "Today's Highlights" equivalent)
-        if (additionalFilters.excludePatterns) {
-            filtered = filtered.filter(note => 
-                !additionalFilters.excludePatterns!.some(pattern => pattern.test(note.name))
-            );
-        }
+    const filtered = notes.filter(note => !trash.some(rule => matchesTrashRule(note, rule)));
+    if (!additionalFilters) return filtered;
 
-        // Include patterns (only include matching)
-        if (additionalFilters.includePatterns && additionalFilters.includePatterns.length > 0) {
-            filtered = filtered.filter(note => 
-                additionalFilters.includePatterns!.some(pattern => pattern.test(note.name))
-            );
-        }
+    return filtered.filter(note => getFilterReason(note, additionalFilters) === null);
+}
 
-        // Size filters
-        if (additionalFilters.minSize !== undefined) {
-            filtered = filtered.filter(note => note.size >= additionalFilters.minSize!);
-        }
-        if (additionalFilters.maxSize !== undefined) {
-            filtered = filtered.filter(note => note.size <= additionalFilters.maxSize!);
-        }
+/**
+ * Whether a trash rule excludes a note. Note rules also match the legacy ID of
+ * notes trashed before FILE_ID-based IDs.
+ */
+export function matchesTrashRule(note: SupernoteFile, rule: TrashRule): boolean {
+    switch (rule.type) {
+        case 'note':
+            return note.id === rule.value || note.legacyId === rule.value;
+        case 'folder':
+            return rule.value !== '' && note.path.startsWith(rule.value.replace(/\/+$/, '') + '/');
+        case 'pattern':
+            return rule.value !== '' && matchesGlob(note.path, rule.value);
+    }
+}
 
-        // Date filters
-        if (additionalFilters.afterDate) {
-            filtered = filtered.filter(note => 
-                new Date(note.modifiedAt) >= additionalFilters.afterDate!
-            );
-        }
-        if (additionalFilters.beforeDate) {
-            filtered = filtered.filter(note => 
-                new Date(note.modifiedAt) <= additionalFilters.beforeDate!
-            );
+/**
+ * Why the filters leave a note out, or null if it passes them all
+ */
+export function getFilterReason(note: SupernoteFile, filters: NoteFilterOptions): string | null {
+    const excludedPath = filters.excludePaths?.find(glob => matchesGlob(note.path, glob));
+    if (excludedPath) {
+        return `Path matches excluded ${excludedPath}`;
+    }
+    if (filters.includePaths && filters.includePaths.length > 0 &&
+        !filters.includePaths.some(glob => matchesGlob(note.path, glob))) {
+        return 'Path matches no included folder';
+    }
+
+    // Exclude patterns (e.g., "Today's Highlights" equivalent)
+    const excludedName = filters.excludePatterns?.find(pattern => pattern.test(note.name));
+    if (excludedName) {
+        return `Name matches excluded ${excludedName.source}`;
+    }
+    // Include patterns (only include matching)
+    if (filters.includePatterns && filters.includePatterns.length > 0 &&
+        !filters.includePatterns.some(pattern => pattern.test(note.name))) {
+        return 'Name matches no included pattern';
+    }
+
+    // Size filters
+    if (filters.minSize !== undefined && note.size < filters.minSize) {
+        return `Smaller than ${formatFileSize(filters.minSize)}`;
+    }
+    if (filters.maxSize !== undefined && note.size > filters.maxSize) {
+        return `Larger than ${formatFileSize(filters.maxSize)}`;
+    }
+
+    // Date filters
+    const modified = new Date(note.modifiedAt);
+    if (filters.afterDate && modified < filters.afterDate) {
+        return `Modified before ${filters.afterDate.toLocaleDateString()}`;
+    }
+    if (filters.beforeDate && modified > filters.beforeDate) {
+        return `Modified after ${filters.beforeDate.toLocaleDateString()}`;
+    }
+
+    return null;
+}
+
+/**
+ * Turn the filters from the settings into filter options. Blank entries,
+ * invalid regexes and invalid dates are ignored; zero sizes mean no bound.
+ */
+export function getFilterOptions(filters: NoteFilters): NoteFilterOptions {
+    const globs = (values: string[]): string[] => values.map(value => value.trim()).filter(Boolean);
+
+    return {
+        includePaths: globs(filters.includePaths),
+        excludePaths: globs(filters.excludePaths),
+        includePatterns: compilePatterns(filters.includeNames),
+        excludePatterns: compilePatterns(filters.excludeNames),
+        minSize: filters.minSizeKb > 0 ? filters.minSizeKb * 1024 : undefined,
+        maxSize: filters.maxSizeKb > 0 ? filters.maxSizeKb * 1024 : undefined,
+        afterDate: parseDay(filters.modifiedAfter, 'T00:00:00'),
+        beforeDate: parseDay(filters.modifiedBefore, 'T23:59:59.999'),
+    };
+}
+
+/**
+ * Compile name patterns (case-insensitive), skipping invalid ones
+ */
+function compilePatterns(patterns: string[]): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const pattern of patterns.map(value => value.trim()).filter(Boolean)) {
+        try {
+            compiled.push(new RegExp(pattern, 'i'));
+        } catch (error) {
+            console.warn(`[filters] Ignoring invalid name pattern ${pattern}:`, error);
         }
     }
+    return compiled;
+}
 
-    return filtered;
+/**
+ * Local time on a YYYY-MM-DD day, or undefined if blank or invalid
+ */
+function parseDay(day: string, time: string): Date | undefined {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day.trim())) return undefined;
+    const date = new Date(day.trim() + time);
+    return isNaN(date.getTime()) ? undefined : date;
 }
 
 /**
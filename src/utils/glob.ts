@@ -0,0 +1,46 @@
+/**
+ * Convert a glob on device paths to a regular expression matching whole paths.
+ * `**` matches any number of folders (including none), `*` anything within a
+ * folder or file name, and `?` a single character.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" may match no folder at all, so "/Note/**/x" matches "/Note/x"
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a device path matches a glob (e.g. "/Note/Work/**")
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+    return globToRegExp(glob).test(path);
+}
+
+/**
+ * The folder a glob starts from, before its first wildcard.
+ * E.g. "/Note/Work/**" -> "/Note/Work", "/Note/*.note" -> "/Note"
+ */
+export function globBase(glob: string): string {
+    const wildcard = glob.search(/[*?]/);
+    const literal = wildcard < 0 ? glob : glob.slice(0, wildcard);
+    const lastSlash = literal.lastIndexOf('/');
+    return lastSlash > 0 ? literal.slice(0, lastSlash) : '';
+}
@@ -0,0 +1,9 @@
+/**
+ * SHA-256 of binary data, as a lowercase hex string
+ */
+export async function sha256(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
@@ -1,4 +1,78 @@
-import { SupernoteFile, ExportOptions } from '../api/types';
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { SupernoteFile, ExportOptions, NoteContent, NoteLink, MergeStrategy, PageImage } from '../api/types';
+
+/**
+ * Tag applied to every imported note
+ */
+const DEFAULT_TAG = 'supernote';
+
+/**
+ * Markers around the generated part of a note body. Updates replace what is
+ * between them and leave the rest of the file to the user.
+ */
+export const MANAGED_START = '%% supernote:start %%';
+export const MANAGED_END = '%% supernote:end %%';
+
+const MANAGED_REGION = /%% supernote:start %%\n?[\s\S]*?\n?%% supernote:end %%/;
+
+/**
+ * Section for the user's own notes, below the generated part
+ */
+const NOTES_SECTION = `---\n\n## Notes\n\n*Add your notes and annotations here...*\n`;
+
+// Start of the notes section in bodies written before managed regions existed
+const LEGACY_NOTES_SECTION = '\n---\n\n## Notes\n';
+
+/**
+ * Frontmatter keys written for each selectable FrontmatterField
+ */
+const FRONTMATTER_FIELD_KEYS: Record<string, string[]> = {
+    date: ['created', 'modified'],
+    pageCount: ['pages'],
+    tags: ['tags', 'keywords'],
+};
+
+/**
+ * Frontmatter keys written by the plugin; other keys belong to the user
+ */
+const SUPERNOTE_FIELDS = ['name', 'supernote_id', 'source', 'created', 'modified', 'pages', 'size', 'pdf_attachment', 'tags', 'keywords'];
+
+/**
+ * A value a template can refer to: text, a number, a list to loop over, or an
+ * object whose fields are in scope inside a loop
+ */
+type TemplateValue = string | number | boolean | undefined | TemplateValue[] | TemplateScope;
+
+interface TemplateScope {
+    [key: string]: TemplateValue;
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; name: string; tag: string; quote: string }  // Quote the tag is inside of on its line, if any
+    | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; name: string; body: TemplateNode[] };
+
+// {{name}}, {{#if name}}, {{else}}, {{/if}}, {{#each name}}, {{/each}}, with the
+// indentation before and line break after, so tags alone on a line leave no blank line
+const TEMPLATE_TAG = /([ \t]*)\{\{\s*(?:(#if|#each)\s+([\w.]+)|(else|\/if|\/each)|([\w.]+))\s*\}\}([ \t]*(?:\n|$))?/g;
+
+// Part of a template written once on import and left to the user afterwards
+const TEMPLATE_USER_BLOCK = /\{\{\s*#user\s*\}\}\n?([\s\S]*?)\{\{\s*\/user\s*\}\}\n?/;
+
+const TEMPLATE_FRONTMATTER = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+const FRONTMATTER = /^---\n([\s\S]*?)\n---/;
+
+/**
+ * A top-level frontmatter field as written in the file: the comment lines
+ * above it and the lines of the field itself
+ */
+interface YamlEntry {
+    key: string | null;          // null if the lines don't parse as a field on their own
+    comments: string[];
+    lines: string[];
+}
 
 /**
  * Generate markdown content for a Supernote note entry
@@ -7,10 +81,19 @@ export function generateMarkdown(
     note: SupernoteFile,
     options: ExportOptions,
     pdfVaultPath?: string,
-    thumbnailBase64?: string
+    thumbnailPath?: string,
+    content?: NoteContent,
+    pageImages?: PageImage[],
+    template?: string
 ): string {
-    const frontmatter = generateFrontmatter(note, pdfVaultPath);
-    const body = generateBody(note, options, pdfVaultPath, thumbnailBase64);
+    let frontmatter = generateFrontmatter(note, pdfVaultPath, content, options.extraTags);
+    if (template) {
+        frontmatter += renderTemplateFrontmatter(
+            template,
+            buildTemplateContext(note, options, pdfVaultPath, thumbnailPath, content, pageImages)
+        );
+    }
+    const body = generateBody(note, options, pdfVaultPath, thumbnailPath, content, pageImages, template);
     
     return `---\n${frontmatter}---\n\n${body}`;
 }
@@ -20,7 +103,9 @@ export function generateMarkdown(
  */
 export function generateFrontmatter(
     note: SupernoteFile,
-    pdfVaultPath?: string
+    pdfVaultPath?: string,
+    content?: NoteContent,
+    extraTags?: string[]
 ): string {
     const lines: string[] = [];
     
@@ -52,22 +137,94 @@ export function generateFrontmatter(
         lines.push(`pdf_attachment: "${escapeYamlString(pdfVaultPath)}"`);
     }
     
-    // Default tags
+    // Tags: default tag, extra tags, plus any keywords marked on the device
     lines.push(`tags:`);
-    lines.push(`  - supernote`);
+    for (const tag of generateTags(content, extraTags)) {
+        lines.push(`  - ${tag}`);
+    }
+
+    // Keywords with the page they were marked on
+    const keywords = formatKeywords(content);
+    if (keywords.length > 0) {
+        lines.push(`keywords:`);
+        for (const keyword of keywords) {
+            lines.push(`  - "${escapeYamlString(keyword)}"`);
+        }
+    }
     
     return lines.join('\n') + '\n';
 }
 
 /**
- * Generate the body content of the markdown file
+ * Build the tag list for a note: the default tag, any extra tags (e.g. from a
+ * folder rule), plus one tag per unique keyword
+ */
+export function generateTags(content?: NoteContent, extraTags: string[] = []): string[] {
+    const tags = [DEFAULT_TAG];
+    for (const extra of extraTags) {
+        const tag = extra.trim().replace(/^#/, '').replace(/\s+/g, '-');
+        if (tag && !tags.includes(tag)) {
+            tags.push(tag);
+        }
+    }
+    for (const keyword of content?.keywords ?? []) {
+        const tag = keywordToTag(keyword.text);
+        if (tag && !tags.includes(tag)) {
+            tags.push(tag);
+        }
+    }
+    return tags;
+}
+
+/**
+ * Format keywords as "text (page N)" entries for the `keywords` frontmatter list
+ */
+export function formatKeywords(content?: NoteContent): string[] {
+    return (content?.keywords ?? []).map(keyword => `${keyword.text} (page ${keyword.pageNumber})`);
+}
+
+/**
+ * Convert free-form keyword text into a valid Obsidian tag (or null if nothing usable remains)
+ */
+function keywordToTag(text: string): string | null {
+    const tag = text
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, '-')                              // Tags cannot contain spaces
+        .replace(/[#,.;:!?'"()[\]{}<>|\\^*&%$@=+~`]/g, '')   // Strip characters Obsidian rejects
+        .replace(/-{2,}/g, '-')
+        .replace(/^-|-$/g, '');
+
+    // Purely numeric tags are not valid in Obsidian
+    if (!tag || /^\d+$/.test(tag)) {
+        return null;
+    }
+    return tag;
+}
+
+/**
+ * Generate the body content of the markdown file: the generated part in a
+ * managed region, followed by a section for the user's notes.
+ * When page images are given, each page gets its own section with the image
+ * and that page's transcription, replacing the separate transcription section.
+ * A user template, if given, replaces this built-in layout.
  */
 export function generateBody(
     note: SupernoteFile,
     options: ExportOptions,
     pdfVaultPath?: string,
-    thumbnailBase64?: string
+    thumbnailPath?: string,
+    content?: NoteContent,
+    pageImages?: PageImage[],
+    template?: string
 ): string {
+    if (template) {
+        return renderTemplateBody(
+            template,
+            buildTemplateContext(note, options, pdfVaultPath, thumbnailPath, content, pageImages)
+        );
+    }
+
     const sections: string[] = [];
     
     // Title
@@ -85,6 +242,30 @@ export function generateBody(
     }
     sections.push(`| **Size** | ${formatFileSize(note.size)} |`);
     sections.push('');
+
+    // Table of contents from headings marked on the device
+    if (content && content.headings.length > 0) {
+        sections.push(`## Contents\n`);
+        for (const heading of content.headings) {
+            if (options.attachPdf && pdfVaultPath) {
+                const label = heading.title.replace(/[[\]|]/g, '');
+                sections.push(`- [[${pdfVaultPath}#page=${heading.pageNumber}|${label}]] (page ${heading.pageNumber})`);
+            } else {
+                sections.push(`- ${heading.title} (page ${heading.pageNumber})`);
+            }
+        }
+        sections.push('');
+    }
+
+    // Links to other notes and websites (links between pages live in the PDF)
+    const outboundLinks = content ? content.links.filter(link => link.type !== 'page') : [];
+    if (outboundLinks.length > 0) {
+        sections.push(`## Links\n`);
+        for (const link of outboundLinks) {
+            sections.push(`- ${formatLink(link)} (page ${link.pageNumber})`);
+        }
+        sections.push('');
+    }
     
     // PDF Link (if attached)
     if (options.attachPdf && pdfVaultPath) {
@@ -93,17 +274,347 @@ export function generateBody(
     }
     
     // Thumbnail (if included)
-    if (options.includeThumbnail && thumbnailBase64) {
+    if (options.includeThumbnail && thumbnailPath) {
         sections.push(`## Preview\n`);
-        sections.push(`![Thumbnail](${thumbnailBase64})\n`);
+        sections.push(`![[${thumbnailPath}]]\n`);
+    }
+
+    // Pages (image embeds, with the transcription of each page)
+    if (pageImages && pageImages.length > 0) {
+        sections.push(`## Pages\n`);
+        for (const image of pageImages) {
+            sections.push(`### Page ${image.pageNumber}\n`);
+            sections.push(`![[${image.path}]]\n`);
+
+            const text = content?.pages[image.pageNumber - 1]?.text;
+            if (options.includeTranscription && text) {
+                sections.push(`${text}\n`);
+            }
+        }
+    } else if (options.includeTranscription && content) {
+        // Transcription (handwriting recognized on the device)
+        const transcribedPages = content.pages.filter(page => page.text);
+        if (transcribedPages.length > 0) {
+            sections.push(`## Transcription\n`);
+            for (const page of transcribedPages) {
+                sections.push(`### Page ${page.pageNumber}\n`);
+                sections.push(`${page.text}\n`);
+            }
+        }
     }
     
-    // Notes section for user additions
-    sections.push(`---\n`);
-    sections.push(`## Notes\n`);
-    sections.push(`*Add your notes and annotations here...*\n`);
-    
-    return sections.join('\n');
+    return `${managedRegion(sections.join('\n'))}\n\n${NOTES_SECTION}`;
+}
+
+function managedRegion(generated: string): string {
+    return `${MANAGED_START}\n${generated.replace(/\n+$/, '')}\n${MANAGED_END}`;
+}
+
+/**
+ * Put the generated part of a body written before managed regions existed
+ * (everything above its "## Notes" section) in a managed region.
+ * @returns The migrated body, or null if it already has a managed region or has no notes section
+ */
+export function addManagedMarkers(body: string): string | null {
+    if (MANAGED_REGION.test(body)) return null;
+
+    const notesIndex = body.lastIndexOf(LEGACY_NOTES_SECTION);
+    if (notesIndex < 0) return null;
+
+    return `${managedRegion(body.slice(0, notesIndex + 1))}\n\n${body.slice(notesIndex + 1)}`;
+}
+
+/**
+ * Replace the managed region of an existing body with the one of a newly
+ * generated body, leaving everything outside it byte-for-byte intact.
+ * Bodies from before managed regions existed are migrated first; if the
+ * generated part can't be told apart, the body is kept as is and the new
+ * managed region is added below it.
+ */
+export function mergeManagedBody(existingBody: string, generatedBody: string): string {
+    const generated = generatedBody.match(MANAGED_REGION);
+    if (!generated) return generatedBody;
+
+    const migrated = MANAGED_REGION.test(existingBody) ? existingBody : addManagedMarkers(existingBody);
+    if (migrated === null) {
+        return existingBody.trim() ? `${existingBody.replace(/\n+$/, '')}\n\n${generated[0]}\n` : generatedBody;
+    }
+
+    // A function replacement, so "$" in the note isn't read as a pattern
+    return migrated.replace(MANAGED_REGION, () => generated[0]);
+}
+
+/**
+ * Fields available to note templates
+ */
+function buildTemplateContext(
+    note: SupernoteFile,
+    options: ExportOptions,
+    pdfVaultPath?: string,
+    thumbnailPath?: string,
+    content?: NoteContent,
+    pageImages?: PageImage[]
+): TemplateScope {
+    const pdf = options.attachPdf && pdfVaultPath ? pdfVaultPath : '';
+    const pageText = (pageNumber: number): string =>
+        options.includeTranscription ? content?.pages[pageNumber - 1]?.text ?? '' : '';
+
+    const pages = pageImages && pageImages.length > 0
+        ? pageImages.map(image => ({ number: image.pageNumber, image: image.path, text: pageText(image.pageNumber) }))
+        : (content?.pages ?? []).map(page => ({ number: page.pageNumber, image: '', text: pageText(page.pageNumber) }));
+
+    return {
+        name: note.name,
+        id: note.id,
+        source: note.path,
+        created: formatDate(note.createdAt),
+        modified: formatDate(note.modifiedAt),
+        createdLong: formatDateReadable(note.createdAt),
+        modifiedLong: formatDateReadable(note.modifiedAt),
+        pageCount: note.pageCount,
+        size: formatFileSize(note.size),
+        pdf,
+        thumbnail: options.includeThumbnail && thumbnailPath ? thumbnailPath : '',
+        tags: generateTags(content, options.extraTags),
+        keywords: (content?.keywords ?? []).map(keyword => ({ text: keyword.text, page: keyword.pageNumber })),
+        headings: (content?.headings ?? []).map(heading => ({
+            title: heading.title,
+            page: heading.pageNumber,
+            link: pdf
+                ? `[[${pdf}#page=${heading.pageNumber}|${heading.title.replace(/[[\]|]/g, '')}]]`
+                : heading.title,
+        })),
+        links: (content?.links ?? [])
+            .filter(link => link.type !== 'page')
+            .map(link => ({ link: formatLink(link), page: link.pageNumber })),
+        pages,
+        transcription: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+    };
+}
+
+/**
+ * Render the body part of a template: its {{#user}} block goes below the
+ * managed region, so it is written on import and kept on updates.
+ */
+function renderTemplateBody(template: string, context: TemplateScope): string {
+    const body = template.replace(TEMPLATE_FRONTMATTER, '');
+    const userBlock = body.match(TEMPLATE_USER_BLOCK);
+    const generated = renderTemplate(body.replace(TEMPLATE_USER_BLOCK, ''), context).replace(/^\n+/, '');
+    const region = managedRegion(generated);
+
+    if (!userBlock) return `${region}\n`;
+    return `${region}\n\n${renderTemplate(userBlock[1], context)}`;
+}
+
+/**
+ * Render the frontmatter of a template, if it has one, dropping the keys the
+ * plugin writes itself. Values are quoted or escaped, so a name like
+ * "Meeting: Q3" stays one YAML string.
+ */
+function renderTemplateFrontmatter(template: string, context: TemplateScope): string {
+    const match = template.match(TEMPLATE_FRONTMATTER);
+    if (!match) return '';
+
+    const yaml = match[1].split('\n').map(quotePlainTemplateScalar).join('\n');
+    const rendered = renderTemplateNodes(parseTemplate(yaml), [context], formatYamlTemplateValue);
+    const { entries } = splitYamlEntries(rendered);
+    const lines = ([] as string[]).concat(
+        ...entries
+            .filter(entry => entry.key !== null && !SUPERNOTE_FIELDS.includes(entry.key))
+            .map(entry => [...entry.comments, ...entry.lines])
+    );
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Render a note template. Supports {{field}} (and {{field.key}}),
+ * {{#if field}}...{{else}}...{{/if}} and {{#each list}}...{{/each}}, where the
+ * fields of each item are in scope and {{this}} is the item itself.
+ * Unknown fields are left as written.
+ */
+function renderTemplate(template: string, context: TemplateScope): string {
+    return renderTemplateNodes(parseTemplate(template), [context]);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const targets = [root];                              // Node lists being filled, innermost last
+    const open: Array<Extract<TemplateNode, { type: 'if' | 'each' }>> = [];
+    const emit = (text: string | undefined): void => {
+        if (text) targets[targets.length - 1].push({ type: 'text', text });
+    };
+
+    TEMPLATE_TAG.lastIndex = 0;
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TEMPLATE_TAG.exec(template)) !== null) {
+        const [full, indent, opener, openName, closer, valueName, lineEnd] = match;
+        emit(template.slice(last, match.index));
+        last = match.index + full.length;
+
+        // Block tags alone on their line take the whole line with them
+        const lineStart = match.index === 0 || template[match.index - 1] === '\n';
+        const standalone = !valueName && lineStart && lineEnd !== undefined;
+        if (!standalone) emit(indent);
+
+        if (opener) {
+            const node: Extract<TemplateNode, { type: 'if' | 'each' }> = opener === '#if'
+                ? { type: 'if', name: openName, then: [], otherwise: [] }
+                : { type: 'each', name: openName, body: [] };
+            targets[targets.length - 1].push(node);
+            open.push(node);
+            targets.push(node.type === 'if' ? node.then : node.body);
+        } else if (closer === 'else') {
+            const node = open[open.length - 1];
+            if (node?.type !== 'if') throw new Error('Template: {{else}} outside of {{#if}}');
+            targets[targets.length - 1] = node.otherwise;
+        } else if (closer) {
+            const node = open.pop();
+            if (node?.type !== closer.slice(1)) throw new Error(`Template: unexpected {{${closer}}}`);
+            targets.pop();
+        } else {
+            const tag = full.slice(indent.length, full.length - (lineEnd?.length ?? 0));
+            const quote = quoteAt(template, match.index + indent.length);
+            targets[targets.length - 1].push({ type: 'value', name: valueName, tag, quote });
+        }
+
+        if (!standalone) emit(lineEnd);
+    }
+    emit(template.slice(last));
+
+    const unclosed = open.pop();
+    if (unclosed) throw new Error(`Template: missing {{/${unclosed.type}}}`);
+    return root;
+}
+
+/**
+ * The quote (" or ') a position in the template is inside of, counted from the
+ * start of its line, or '' outside quotes. Apostrophes within words don't count.
+ */
+function quoteAt(template: string, index: number): string {
+    const lineStart = template.lastIndexOf('\n', index - 1) + 1;
+    let quote = '';
+    for (let i = lineStart; i < index; i++) {
+        const char = template[i];
+        if (quote === '"' && char === '\\') {
+            i++;
+        } else if (quote === "'" && char === "'" && template[i + 1] === "'") {
+            i++;
+        } else if (quote && char === quote) {
+            quote = '';
+        } else if (!quote && (char === '"' || char === "'") && (i === lineStart || /[\s[{,]/.test(template[i - 1]))) {
+            quote = char;
+        }
+    }
+    return quote;
+}
+
+/**
+ * Put a frontmatter line whose plain (unquoted) value mixes text and fields,
+ * e.g. "title: Notes on {{name}}", in double quotes. Lines whose value is a
+ * single field are quoted as they render, see formatYamlTemplateValue.
+ */
+function quotePlainTemplateScalar(line: string): string {
+    const match = /^(\s*(?:- +)*(?:[\w-]+: +)?)(.*\{\{.*?)\s*$/.exec(line);
+    if (!match || !match[1].trim()) return line;
+
+    const [, prefix, scalar] = match;
+    const quotedOrBlock = /^(?:["'[|>]|\{(?!\{))/.test(scalar);
+    const singleField = /^\{\{[^}]*\}\}$/.test(scalar);
+    const blockTag = /\{\{\s*(?:[#/]|else\b)/.test(scalar);
+    if (quotedOrBlock || singleField || blockTag || scalar.includes(' #')) return line;
+
+    const escaped = scalar.split(/(\{\{[^}]*\}\})/).map((part, i) => i % 2 === 1 ? part : escapeYamlString(part));
+    return `${prefix}"${escaped.join('')}"`;
+}
+
+function renderTemplateNodes(
+    nodes: TemplateNode[],
+    scopes: TemplateScope[],
+    format: (value: TemplateValue, quote: string) => string = formatTemplateValue
+): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'value': {
+                const { found, value } = lookupTemplateValue(node.name, scopes);
+                return found ? format(value, node.quote) : node.tag;
+            }
+            case 'if': {
+                const { value } = lookupTemplateValue(node.name, scopes);
+                const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+                return renderTemplateNodes(truthy ? node.then : node.otherwise, scopes, format);
+            }
+            case 'each': {
+                const { value } = lookupTemplateValue(node.name, scopes);
+                if (!Array.isArray(value)) return '';
+                return value.map(item => {
+                    const scope: TemplateScope = isTemplateScope(item) ? { ...item, this: item } : { this: item };
+                    return renderTemplateNodes(node.body, [...scopes, scope], format);
+                }).join('');
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Look a (dotted) field up, innermost loop item first
+ */
+function lookupTemplateValue(name: string, scopes: TemplateScope[]): { found: boolean; value: TemplateValue } {
+    const [head, ...rest] = name.split('.');
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (!(head in scopes[i])) continue;
+
+        let value = scopes[i][head];
+        for (const key of rest) {
+            value = isTemplateScope(value) ? value[key] : undefined;
+        }
+        return { found: true, value };
+    }
+    return { found: false, value: undefined };
+}
+
+function isTemplateScope(value: TemplateValue): value is TemplateScope {
+    return typeof value === 'object' && !Array.isArray(value);
+}
+
+function formatTemplateValue(value: TemplateValue): string {
+    if (Array.isArray(value)) return value.map(formatTemplateValue).filter(Boolean).join(', ');
+    if (value === undefined || isTemplateScope(value)) return '';
+    return String(value);
+}
+
+/**
+ * Format a value for template frontmatter: escaped inside quotes, otherwise
+ * quoted, except numbers, booleans and empty values (null)
+ */
+function formatYamlTemplateValue(value: TemplateValue, quote: string): string {
+    const text = formatTemplateValue(value);
+    if (quote === "'") {
+        return text.replace(/'/g, "''").replace(/\n/g, ' ');
+    }
+
+    const escaped = escapeYamlString(text).replace(/\n/g, '\\n');
+    if (quote === '"') return escaped;
+    if (text === '' || typeof value === 'number' || typeof value === 'boolean') return text;
+    return `"${escaped}"`;
+}
+
+/**
+ * Format a note or web link as markdown. Note links become wikilinks to the
+ * imported note when it is known, otherwise to its name.
+ */
+function formatLink(link: NoteLink): string {
+    if (link.type === 'web') {
+        return `[${link.url}](${link.url})`;
+    }
+
+    const name = (link.targetPath ?? '').split('/').pop()?.replace(/\.note$/, '') ?? '';
+    if (link.resolvedPath) {
+        return `[[${link.resolvedPath.replace(/\.md$/, '')}|${name}]]`;
+    }
+    return `[[${name}]]`;
 }
 
 /**
@@ -244,33 +755,39 @@ export function formatDuration(seconds: number): string {
 }
 
 /**
- * Update frontmatter in existing content while preserving custom fields
+ * Update frontmatter in existing content while preserving custom fields.
+ * Fields whose value doesn't change keep their original text, comments included.
+ * @throws If the existing frontmatter isn't valid YAML, rather than overwrite it
  */
 export function updateFrontmatter(
     existingContent: string,
     newFrontmatter: Record<string, unknown>,
     preserveCustomFields: boolean,
-    fieldsToUpdate?: string[]
+    fieldsToUpdate?: string[],
+    arrayMergeStrategy?: { tags: MergeStrategy }
 ): string {
-    const frontmatterMatch = existingContent.match(/^---\n([\s\S]*?)\n---/);
+    const frontmatterMatch = existingContent.match(FRONTMATTER);
     
     if (!frontmatterMatch) {
         // No existing frontmatter, create new
-        const yaml = objectToYaml(newFrontmatter);
-        return `---\n${yaml}---\n\n${existingContent}`;
+        return `---\n${stringifyFields(newFrontmatter)}---\n\n${existingContent}`;
     }
 
     // Parse existing frontmatter
     const existingYaml = frontmatterMatch[1];
-    const existingFields = parseSimpleYaml(existingYaml);
-    
-    // Known fields that come from Supernote
-    const knownFields = ['name', 'supernote_id', 'source', 'created', 'modified', 'pages', 'size', 'pdf_attachment', 'tags'];
+    let existingFields: Record<string, unknown>;
+    try {
+        existingFields = parseYamlFields(existingYaml);
+    } catch (error) {
+        throw new Error(`Frontmatter is not valid YAML: ${error instanceof Error ? error.message : String(error)}`);
+    }
     
-    // Determine which fields to update
+    // Determine which fields to update (selectable fields may map to several keys)
     let fieldsToProcess: string[];
     if (fieldsToUpdate && fieldsToUpdate.length > 0) {
-        fieldsToProcess = fieldsToUpdate;
+        fieldsToProcess = ([] as string[]).concat(
+            ...fieldsToUpdate.map(field => FRONTMATTER_FIELD_KEYS[field] ?? [field])
+        );
     } else {
         fieldsToProcess = Object.keys(newFrontmatter);
     }
@@ -279,7 +796,11 @@ export function updateFrontmatter(
     const mergedFields: Record<string, unknown> = { ...existingFields };
     
     for (const field of fieldsToProcess) {
-        if (field in newFrontmatter) {
+        if (!(field in newFrontmatter)) continue;
+
+        if (field === 'tags' && arrayMergeStrategy?.tags === 'merge') {
+            mergedFields[field] = mergeTags(existingFields[field], newFrontmatter[field]);
+        } else {
             mergedFields[field] = newFrontmatter[field];
         }
     }
@@ -287,14 +808,14 @@ export function updateFrontmatter(
     // Preserve custom fields if requested
     if (preserveCustomFields) {
         for (const field of Object.keys(existingFields)) {
-            if (!knownFields.includes(field) && !(field in mergedFields)) {
+            if (!SUPERNOTE_FIELDS.includes(field) && !(field in mergedFields)) {
                 mergedFields[field] = existingFields[field];
             }
         }
     }
     
-    // Generate new YAML
-    const newYaml = objectToYaml(mergedFields);
+    // Write the merged fields over the existing YAML
+    const newYaml = mergeYaml(existingYaml, existingFields, mergedFields);
     
     // Replace frontmatter in content
     const bodyContent = existingContent.slice(frontmatterMatch[0].length);
@@ -302,81 +823,169 @@ export function updateFrontmatter(
 }
 
 /**
- * Convert an object to YAML string
+ * Combine existing and new tags, keeping existing order and dropping duplicates
  */
-function objectToYaml(obj: Record<string, unknown>): string {
-    const lines: string[] = [];
-    
-    for (const [key, value] of Object.entries(obj)) {
-        if (Array.isArray(value)) {
-            lines.push(`${key}:`);
-            for (const item of value) {
-                lines.push(`  - ${typeof item === 'string' ? `"${escapeYamlString(item)}"` : item}`);
-            }
-        } else if (typeof value === 'string') {
-            lines.push(`${key}: "${escapeYamlString(value)}"`);
-        } else if (typeof value === 'number' || typeof value === 'boolean') {
-            lines.push(`${key}: ${value}`);
-        } else if (value === null || value === undefined) {
-            lines.push(`${key}: `);
+function mergeTags(existing: unknown, incoming: unknown): string[] {
+    const toList = (value: unknown): string[] => {
+        if (Array.isArray(value)) return value.map(String);
+        if (typeof value === 'string' && value) return value.split(',').map(tag => tag.trim());
+        return [];
+    };
+
+    const merged = toList(existing);
+    for (const tag of toList(incoming)) {
+        if (!merged.includes(tag)) {
+            merged.push(tag);
         }
     }
-    
-    return lines.join('\n') + '\n';
+    return merged;
 }
 
 /**
- * Simple YAML parser for flat structures
+ * Get the body of a markdown file, without its frontmatter
  */
-function parseSimpleYaml(yaml: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-    const lines = yaml.split('\n');
-    let currentKey = '';
-    let currentArray: string[] = [];
-    let isArray = false;
-    
-    for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-        
-        // Check for array item
-        if (trimmed.startsWith('- ')) {
-            if (isArray) {
-                const value = trimmed.slice(2).replace(/^["']|["']$/g, '');
-                currentArray.push(value);
-            }
-            continue;
-        }
-        
-        // Save previous array if exists
-        if (isArray && currentKey) {
-            result[currentKey] = currentArray;
-            isArray = false;
-            currentArray = [];
+export function getBody(content: string): string {
+    const frontmatterMatch = content.match(FRONTMATTER);
+    if (!frontmatterMatch) {
+        return content;
+    }
+    return content.slice(frontmatterMatch[0].length).replace(/^\n+/, '');
+}
+
+/**
+ * Replace the body of existing content while keeping its frontmatter untouched
+ */
+export function replaceBody(existingContent: string, newBody: string): string {
+    const frontmatterMatch = existingContent.match(FRONTMATTER);
+    if (!frontmatterMatch) {
+        return newBody;
+    }
+    return `${frontmatterMatch[0]}\n\n${newBody}`;
+}
+
+/**
+ * Parse the frontmatter of markdown content.
+ * Returns an empty object if there is none or it isn't a valid YAML map.
+ */
+export function parseFrontmatter(content: string): Record<string, unknown> {
+    const match = content.match(FRONTMATTER);
+    if (!match) return {};
+
+    try {
+        return parseYamlFields(match[1]);
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Parse YAML that should be a map of fields
+ */
+function parseYamlFields(yaml: string): Record<string, unknown> {
+    const parsed: unknown = parseYaml(yaml);
+    if (parsed === null || parsed === undefined) return {};
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Frontmatter is not a map of fields');
+    }
+    return withDateStrings(parsed) as Record<string, unknown>;
+}
+
+/**
+ * Turn dates the YAML parser read as Date objects back into the text written
+ * in the file, so they compare equal to the dates the plugin generates
+ */
+function withDateStrings(value: unknown): unknown {
+    if (value instanceof Date) {
+        const iso = value.toISOString();
+        return iso.endsWith('T00:00:00.000Z') ? iso.split('T')[0] : iso;
+    }
+    if (Array.isArray(value)) return value.map(withDateStrings);
+    if (typeof value === 'object' && value !== null) {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = withDateStrings(item);
         }
-        
-        // Parse key-value
-        const colonIndex = trimmed.indexOf(':');
-        if (colonIndex === -1) continue;
-        
-        const key = trimmed.slice(0, colonIndex).trim();
-        const value = trimmed.slice(colonIndex + 1).trim();
-        
-        if (!key) continue;
-        currentKey = key;
-        
-        if (value === '' || value === '|' || value === '>') {
-            isArray = true;
-            currentArray = [];
+        return result;
+    }
+    return value;
+}
+
+/**
+ * Serialize fields as YAML, leaving out undefined ones
+ */
+function stringifyFields(fields: Record<string, unknown>): string {
+    const defined: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) defined[key] = value;
+    }
+    return Object.keys(defined).length > 0 ? stringifyYaml(defined) : '';
+}
+
+/**
+ * Write fields over existing YAML. Fields with an unchanged value keep their
+ * original lines, changed ones are rewritten in place, new ones are added at
+ * the end and removed ones are dropped along with their comments.
+ */
+function mergeYaml(existingYaml: string, existingFields: Record<string, unknown>, fields: Record<string, unknown>): string {
+    const { entries, trailing } = splitYamlEntries(existingYaml);
+
+    // Fields spread over lines in ways the split doesn't follow: rewrite everything
+    if (entries.some(entry => entry.key === null)) {
+        return stringifyFields(fields);
+    }
+
+    const lines: string[] = [];
+    const written = new Set<string>();
+
+    for (const entry of entries) {
+        if (entry.key === null || fields[entry.key] === undefined || written.has(entry.key)) continue;
+
+        written.add(entry.key);
+        const unchanged = JSON.stringify(existingFields[entry.key]) === JSON.stringify(fields[entry.key]);
+        lines.push(...entry.comments);
+        lines.push(...(unchanged ? entry.lines : stringifyFields({ [entry.key]: fields[entry.key] }).replace(/\n+$/, '').split('\n')));
+    }
+
+    const added: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+        if (!written.has(key)) added[key] = value;
+    }
+    const addedYaml = stringifyFields(added).replace(/\n+$/, '');
+    if (addedYaml) lines.push(...addedYaml.split('\n'));
+
+    lines.push(...trailing);
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Split YAML into its top-level fields. A field runs from its key line to the
+ * next line starting at column 0 (list items may also start there); comment
+ * and blank lines before a key belong to that key.
+ */
+function splitYamlEntries(yaml: string): { entries: YamlEntry[]; trailing: string[] } {
+    const entries: YamlEntry[] = [];
+    let pending: string[] = [];
+    let current: YamlEntry | null = null;
+
+    for (const line of yaml.split('\n')) {
+        if (!line.trim() || line.startsWith('#')) {
+            pending.push(line);
+        } else if (/^[\s-]/.test(line) && current) {
+            current.lines.push(...pending, line);
+            pending = [];
         } else {
-            result[key] = value.replace(/^["']|["']$/g, '');
+            current = { key: null, comments: pending, lines: [line] };
+            entries.push(current);
+            pending = [];
         }
     }
-    
-    // Save final array
-    if (isArray && currentKey) {
-        result[currentKey] = currentArray;
+
+    for (const entry of entries) {
+        try {
+            entry.key = Object.keys(parseYamlFields(entry.lines.join('\n')))[0] ?? null;
+        } catch {
+            entry.key = null;
+        }
     }
-    
-    return result;
+    return { entries, trailing: pending };
 }
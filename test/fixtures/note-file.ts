@@ -0,0 +1,136 @@
+/**
+ * Builds synthetic .note files for tests, with just the blocks the parser reads:
+ * a header, one metadata block per page, RECOGNTEXT and TOTALPATH data, and the
+ * footer's KEYWORD_, TITLE_ and LINKO_ entries.
+ */
+
+export interface FixtureStroke {
+    pen: number;                            // Pen type code (1 = ink)
+    color: number;
+    thickness: number;                      // 1/100 mm
+    points: Array<[number, number]>;        // (x, y) in digitizer units
+    pressures?: number[];                   // 0-4095, one per point
+}
+
+export interface FixturePage {
+    pageId?: string;
+    recognition?: unknown;                  // JIIX document, stored base64 encoded
+    rawRecognition?: string;                // Stored as is, for malformed data
+    strokes?: FixtureStroke[];
+}
+
+export interface FixtureNote {
+    fileId?: string;
+    equipment?: string;                     // APPLY_EQUIPMENT, e.g. "N5" for A5X2/Manta
+    pages: FixturePage[];
+    keywords?: Array<{ key: string; text: string; page?: number }>;
+    titles?: Array<{ key: string; rect: string }>;
+    links?: Array<{ key: string; type: number; rect: string; file?: string; pageId?: string }>;
+}
+
+export function buildNoteFile(fixture: FixtureNote): ArrayBuffer {
+    const chunks: Uint8Array[] = [new TextEncoder().encode('noteSN_FILE_VER_20230015')];
+    let length = chunks[0].length;
+
+    // Writes a length-prefixed block and returns its address
+    const block = (data: Uint8Array | string): number => {
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        const address = length;
+        chunks.push(u32(bytes.length), bytes);
+        length += 4 + bytes.length;
+        return address;
+    };
+    const metadata = (fields: Record<string, string | number>): string =>
+        Object.keys(fields).map(key => `<${key}:${fields[key]}>`).join('');
+
+    const footer: Record<string, string | number> = {};
+    footer.FILE_FEATURE = block(metadata({
+        FILE_ID: fixture.fileId ?? 'F20240101000000000000',
+        APPLY_EQUIPMENT: fixture.equipment ?? 'N6',
+    }));
+
+    fixture.pages.forEach((page, index) => {
+        const fields: Record<string, string | number> = { PAGEID: page.pageId ?? `P${index + 1}` };
+        if (page.recognition !== undefined) {
+            fields.RECOGNTEXT = block(base64(JSON.stringify(page.recognition)));
+        } else if (page.rawRecognition !== undefined) {
+            fields.RECOGNTEXT = block(page.rawRecognition);
+        }
+        if (page.strokes) {
+            fields.TOTALPATH = block(encodeStrokes(page.strokes));
+        }
+        footer[`PAGE${index + 1}`] = block(metadata(fields));
+    });
+
+    for (const keyword of fixture.keywords ?? []) {
+        const fields: Record<string, string | number> = { KEYWORD: keyword.text };
+        if (keyword.page !== undefined) fields.KEYWORDPAGE = keyword.page;
+        footer[keyword.key] = block(metadata(fields));
+    }
+    for (const title of fixture.titles ?? []) {
+        footer[title.key] = block(metadata({ TITLERECT: title.rect }));
+    }
+    for (const link of fixture.links ?? []) {
+        footer[link.key] = block(metadata({
+            LINKTYPE: link.type,
+            LINKRECT: link.rect,
+            LINKFILE: base64(link.file ?? ''),
+            PAGEID: link.pageId ?? '',
+        }));
+    }
+
+    const footerAddress = block(metadata(footer));
+    chunks.push(u32(footerAddress));
+    length += 4;
+
+    const file = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        file.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return file.buffer;
+}
+
+/**
+ * TOTALPATH layout as read by the parser: a stroke count, then per stroke its
+ * size, pen, color, thickness, points as (y, x) and u16 pressures
+ */
+function encodeStrokes(strokes: FixtureStroke[]): Uint8Array {
+    const parts: Uint8Array[] = [u32(strokes.length)];
+    for (const stroke of strokes) {
+        const pressures = stroke.pressures ?? [];
+        const body = new Uint8Array(16 + stroke.points.length * 8 + 4 + pressures.length * 2);
+        const view = new DataView(body.buffer);
+        view.setUint32(0, stroke.pen, true);
+        view.setUint32(4, stroke.color, true);
+        view.setUint32(8, stroke.thickness, true);
+        view.setUint32(12, stroke.points.length, true);
+        stroke.points.forEach(([x, y], i) => {
+            view.setUint32(16 + i * 8, y, true);
+            view.setUint32(20 + i * 8, x, true);
+        });
+        const pressureStart = 16 + stroke.points.length * 8;
+        view.setUint32(pressureStart, pressures.length, true);
+        pressures.forEach((pressure, i) => view.setUint16(pressureStart + 4 + i * 2, pressure, true));
+        parts.push(u32(body.length), body);
+    }
+
+    const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        data.set(part, offset);
+        offset += part.length;
+    }
+    return data;
+}
+
+function base64(text: string): string {
+    return btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(text))));
+}
+
+function u32(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+}
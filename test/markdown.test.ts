@@ -0,0 +1,232 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ExportOptions, NoteContent, SupernoteFile } from '../src/api/types';
+import {
+    addManagedMarkers,
+    generateBody,
+    generateMarkdown,
+    MANAGED_END,
+    MANAGED_START,
+    mergeManagedBody,
+    parseFrontmatter,
+    updateFrontmatter,
+} from '../src/utils/markdown';
+
+const note: SupernoteFile = {
+    id: 'F20240102',
+    name: 'Weekly plan',
+    path: '/Note/Work/Weekly plan.note',
+    size: 2048,
+    createdAt: '2024-01-02T09:00:00.000Z',
+    modifiedAt: '2024-01-03T10:00:00.000Z',
+    pageCount: 2,
+};
+
+const options: ExportOptions = {
+    includeThumbnail: false,
+    attachPdf: false,
+    includeTranscription: true,
+    includeVectorPages: false,
+};
+
+const content: NoteContent = {
+    pageCount: 2,
+    width: 1404,
+    height: 1872,
+    pages: [
+        { pageNumber: 1, text: 'Ship the release', words: [] },
+        { pageNumber: 2, text: undefined, words: [] },
+    ],
+    keywords: [{ text: 'release', pageNumber: 1 }],
+    headings: [],
+    links: [],
+};
+
+describe('managed regions', () => {
+    it('wraps the generated part of a new body', () => {
+        const body = generateBody(note, options, undefined, undefined, content);
+        assert.ok(body.startsWith(`${MANAGED_START}\n`));
+        assert.ok(body.includes(`${MANAGED_END}\n\n---\n\n## Notes`));
+        assert.ok(body.includes('Ship the release'));
+    });
+
+    it('replaces only the managed region on update', () => {
+        const existing = `${MANAGED_START}\nold content\n${MANAGED_END}\n\n---\n\n## Notes\n\nMy thoughts, worth $5\n`;
+        const generated = `${MANAGED_START}\nnew content\n${MANAGED_END}\n\n---\n\n## Notes\n\n*placeholder*\n`;
+        assert.equal(
+            mergeManagedBody(existing, generated),
+            `${MANAGED_START}\nnew content\n${MANAGED_END}\n\n---\n\n## Notes\n\nMy thoughts, worth $5\n`
+        );
+    });
+
+    it('keeps text written above the region', () => {
+        const existing = `Intro\n\n${MANAGED_START}\nold\n${MANAGED_END}\nOutro\n`;
+        const generated = `${MANAGED_START}\nnew\n${MANAGED_END}\n`;
+        assert.equal(mergeManagedBody(existing, generated), `Intro\n\n${MANAGED_START}\nnew\n${MANAGED_END}\nOutro\n`);
+    });
+
+    it('migrates bodies written before managed regions', () => {
+        const legacy = '# Weekly plan\n\nGenerated\n\n---\n\n## Notes\n\nMine\n';
+        assert.equal(
+            addManagedMarkers(legacy),
+            `${MANAGED_START}\n# Weekly plan\n\nGenerated\n${MANAGED_END}\n\n---\n\n## Notes\n\nMine\n`
+        );
+        assert.equal(
+            mergeManagedBody(legacy, `${MANAGED_START}\nRegenerated\n${MANAGED_END}\n`),
+            `${MANAGED_START}\nRegenerated\n${MANAGED_END}\n\n---\n\n## Notes\n\nMine\n`
+        );
+    });
+
+    it('keeps bodies it cannot split and adds the managed region below', () => {
+        const generated = `${MANAGED_START}\nRegenerated\n${MANAGED_END}\n\n---\n\n## Notes\n`;
+        assert.equal(addManagedMarkers('No notes section'), null);
+        assert.equal(addManagedMarkers(`${MANAGED_START}\nx\n${MANAGED_END}\n`), null);
+        assert.equal(mergeManagedBody('No notes section\n', generated), `No notes section\n\n${MANAGED_START}\nRegenerated\n${MANAGED_END}\n`);
+        assert.equal(mergeManagedBody('', generated), generated);
+    });
+});
+
+describe('frontmatter round-trip', () => {
+    const existing = [
+        '---',
+        '# Written by hand',
+        'name: "Weekly plan"',
+        'supernote_id: "F20240102"',
+        'modified: 2024-01-01',
+        'project:',
+        '  client: Acme   # inline comment',
+        '  due: 2024-02-01',
+        'summary: |',
+        '  Line one',
+        '  Line two',
+        'tags:',
+        '  - supernote',
+        '  - mine',
+        '---',
+        '',
+        'Body',
+    ].join('\n');
+
+    it('rewrites changed fields and keeps everything else as written', () => {
+        const updated = updateFrontmatter(existing, { name: 'Weekly plan', modified: '2024-01-03' }, true);
+        // The date is written as a string, so it is quoted to stay one
+        assert.equal(updated, existing.replace('modified: 2024-01-01', "modified: '2024-01-03'"));
+        assert.equal(parseFrontmatter(updated).modified, '2024-01-03');
+    });
+
+    it('appends new fields and merges tags', () => {
+        const updated = updateFrontmatter(
+            existing,
+            { pages: 2, tags: ['supernote', 'release'] },
+            true,
+            undefined,
+            { tags: 'merge' }
+        );
+        const fields = parseFrontmatter(updated);
+        assert.deepEqual(fields.tags, ['supernote', 'mine', 'release']);
+        assert.equal(fields.pages, 2);
+        assert.ok(updated.includes('  client: Acme   # inline comment'));
+        assert.ok(updated.includes('summary: |\n  Line one\n  Line two'));
+        assert.ok(updated.endsWith('---\n\nBody'));
+    });
+
+    it('only updates the selected fields', () => {
+        const updated = updateFrontmatter(existing, { name: 'Renamed', modified: '2024-01-03' }, true, ['name']);
+        const fields = parseFrontmatter(updated);
+        assert.equal(fields.name, 'Renamed');
+        assert.equal(fields.modified, '2024-01-01');
+        assert.deepEqual(fields.project, { client: 'Acme', due: '2024-02-01' });
+    });
+
+    it('refuses to overwrite invalid YAML', () => {
+        const broken = '---\nname: [unclosed\n---\nBody';
+        assert.throws(() => updateFrontmatter(broken, { name: 'x' }, true), /not valid YAML/);
+        assert.deepEqual(parseFrontmatter(broken), {});
+    });
+
+    it('adds frontmatter to content without any', () => {
+        const updated = updateFrontmatter('Body', { name: 'New' }, true);
+        assert.deepEqual(parseFrontmatter(updated), { name: 'New' });
+        assert.ok(updated.endsWith('\n\nBody'));
+    });
+});
+
+describe('note templates', () => {
+    const template = [
+        '---',
+        'status: draft',
+        'name: ignored',
+        '---',
+        '# {{name}}',
+        '{{#if keywords}}',
+        'Keywords: {{#each keywords}}{{text}} (p{{page}}) {{/each}}',
+        '{{else}}',
+        'No keywords',
+        '{{/if}}',
+        '{{#each pages}}',
+        '## Page {{number}}',
+        '{{text}}',
+        '{{/each}}',
+        '{{unknown.field}}',
+        '{{#user}}',
+        '## Action items',
+        '{{/user}}',
+    ].join('\n');
+
+    it('renders fields, conditions and lists inside the managed region', () => {
+        const body = generateBody(note, options, undefined, undefined, content, undefined, template);
+        assert.equal(body, [
+            MANAGED_START,
+            '# Weekly plan',
+            'Keywords: release (p1) ',
+            '## Page 1',
+            'Ship the release',
+            '## Page 2',
+            '',
+            '{{unknown.field}}',
+            MANAGED_END,
+            '',
+            '## Action items',
+            '',
+        ].join('\n'));
+    });
+
+    it('adds template frontmatter without overriding the plugin fields', () => {
+        const markdown = generateMarkdown(note, options, undefined, undefined, content, undefined, template);
+        const fields = parseFrontmatter(markdown);
+        assert.equal(fields.status, 'draft');
+        assert.equal(fields.name, 'Weekly plan');
+    });
+
+    it('keeps names with YAML syntax as one frontmatter string', () => {
+        const tricky = { ...note, name: 'Meeting: Q3 "draft" #1', pageCount: 2 };
+        const yamlTemplate = [
+            '---',
+            'title: {{name}}',
+            'summary: Notes on {{name}}',
+            'quoted: "{{name}}"',
+            "single: 'Bob''s {{name}}'",
+            'pages: {{pageCount}}',
+            'empty: {{thumbnail}}',
+            'aliases:',
+            '{{#each keywords}}',
+            '  - {{text}}',
+            '{{/each}}',
+            '---',
+            'Body',
+        ].join('\n');
+        const markdown = generateMarkdown(tricky, options, undefined, undefined, content, undefined, yamlTemplate);
+        const fields = parseFrontmatter(markdown);
+        assert.equal(fields.title, 'Meeting: Q3 "draft" #1');
+        assert.equal(fields.summary, 'Notes on Meeting: Q3 "draft" #1');
+        assert.equal(fields.quoted, 'Meeting: Q3 "draft" #1');
+        assert.equal(fields.single, 'Bob\'s Meeting: Q3 "draft" #1');
+        assert.equal(fields.pages, 2);
+        assert.equal(fields.empty, null);
+        assert.deepEqual(fields.aliases, ['release']);
+    });
+
+    it('reports unclosed blocks', () => {
+        assert.throws(() => generateBody(note, options, undefined, undefined, content, undefined, '{{#if name}}x'), /missing \{\{\/if\}\}/);
+    });
+});
@@ -0,0 +1,236 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { convertNoteToPdf, convertNoteToSvgs, extractNoteContent, extractStrokes, getNoteInfo, getPageHashes, PageImageCache, readFileId } from '../src/api/note-parser';
+import { buildNoteFile, FixtureStroke } from './fixtures/note-file';
+
+// A5X pixels per millimetre (226 dpi)
+const A5X_SCALE = 226 / 25.4;
+
+function textElement(label: string, words: Array<[string, number, number, number, number]> = []): unknown {
+    return {
+        type: 'Text',
+        label,
+        words: words.map(([text, x, y, width, height]) => ({ label: text, 'bounding-box': { x, y, width, height } })),
+    };
+}
+
+describe('note file validation', () => {
+    it('reads page count and A5X dimensions', () => {
+        const info = getNoteInfo(buildNoteFile({ pages: [{}, {}] }));
+        assert.equal(info.pageCount, 2);
+        assert.equal(info.width, 1404);
+        assert.equal(info.height, 1872);
+    });
+
+    it('detects A5X2 notes from the equipment', () => {
+        const info = getNoteInfo(buildNoteFile({ equipment: 'N5', pages: [{}] }));
+        assert.equal(info.width, 1920);
+        assert.equal(info.height, 2560);
+    });
+
+    it('rejects files without a Supernote signature', () => {
+        const data = new Uint8Array(buildNoteFile({ pages: [{}] }));
+        data.set(new TextEncoder().encode('XXXX'), 4);
+        assert.throws(() => getNoteInfo(data.buffer), /Invalid \.note file signature/);
+    });
+
+    it('recognizes HTML error pages', () => {
+        const html = new TextEncoder().encode(`<!DOCTYPE html><html>${' '.repeat(200)}</html>`);
+        assert.throws(() => getNoteInfo(html.buffer), /Downloaded HTML/);
+    });
+
+    it('reads the FILE_ID from the header', () => {
+        const data = buildNoteFile({ fileId: 'F20240102030405060708', pages: [{}] });
+        assert.equal(readFileId(data), 'F20240102030405060708');
+    });
+});
+
+describe('recognized text', () => {
+    it('joins the text blocks of a page and scales words to pixels', () => {
+        const content = extractNoteContent(buildNoteFile({
+            pages: [{
+                recognition: {
+                    elements: [
+                        textElement('Hello there', [['Hello', 10, 20, 8, 4]]),
+                        { type: 'Drawing' },
+                        textElement('Second line'),
+                    ],
+                },
+            }, {}],
+        }));
+
+        assert.equal(content.pages[0].text, 'Hello there\nSecond line');
+        assert.equal(content.pages[1].text, undefined);
+        assert.equal(content.pages[0].words.length, 1);
+        const word = content.pages[0].words[0];
+        assert.equal(word.text, 'Hello');
+        assert.ok(Math.abs(word.x - 10 * A5X_SCALE) < 1e-9);
+        assert.ok(Math.abs(word.height - 4 * A5X_SCALE) < 1e-9);
+    });
+
+    it('reads the single Text root of older firmware', () => {
+        const content = extractNoteContent(buildNoteFile({ pages: [{ recognition: textElement('Old format') }] }));
+        assert.equal(content.pages[0].text, 'Old format');
+    });
+
+    it('keeps non-Latin text', () => {
+        const content = extractNoteContent(buildNoteFile({
+            pages: [{ recognition: textElement('会議メモ') }],
+        }));
+        assert.equal(content.pages[0].text, '会議メモ');
+    });
+
+    it('ignores malformed recognition data', () => {
+        const content = extractNoteContent(buildNoteFile({ pages: [{ rawRecognition: 'not base64 json!' }] }));
+        assert.equal(content.pages[0].text, undefined);
+        assert.deepEqual(content.pages[0].words, []);
+    });
+});
+
+describe('keywords, headings and links', () => {
+    it('lists keywords in reading order with their page', () => {
+        const content = extractNoteContent(buildNoteFile({
+            pages: [{}, {}],
+            keywords: [
+                { key: 'KEYWORD_00020100', text: 'later' },
+                { key: 'KEYWORD_00010200', text: ' budget ', page: 1 },
+                { key: 'KEYWORD_00010300', text: '  ' },
+            ],
+        }));
+        assert.deepEqual(content.keywords, [
+            { text: 'budget', pageNumber: 1 },
+            { text: 'later', pageNumber: 2 },
+        ]);
+    });
+
+    it('titles headings with the recognized words inside their rectangle', () => {
+        const content = extractNoteContent(buildNoteFile({
+            pages: [{
+                recognition: textElement('Plan for today', [
+                    ['Plan', 10, 10, 10, 5],
+                    ['today', 10, 100, 10, 5],
+                ]),
+            }, {}],
+            titles: [
+                { key: 'TITLE_00010100', rect: '0,0,400,200' },
+                { key: 'TITLE_00020100', rect: '0,0,400,200' },
+                { key: 'TITLE_00090100', rect: '0,0,400,200' },
+            ],
+        }));
+        assert.deepEqual(content.headings, [
+            { title: 'Plan', pageNumber: 1, y: 0 },
+            { title: 'Heading on page 2', pageNumber: 2, y: 0 },
+        ]);
+    });
+
+    it('resolves page, note and web links', () => {
+        const content = extractNoteContent(buildNoteFile({
+            pages: [{ pageId: 'PA' }, { pageId: 'PB' }],
+            links: [
+                { key: 'LINKO_00010100', type: 0, rect: '1,2,3,4', pageId: 'PB' },
+                { key: 'LINKO_00010200', type: 1, rect: '5,6,7,8', file: '/storage/emulated/0/Note/Work/Plan.note' },
+                { key: 'LINKO_00020100', type: 4, rect: '9,10,11,12', file: 'https://example.com/' },
+                { key: 'LINKO_00020200', type: 0, rect: '1,1,1,1', pageId: 'missing' },
+                { key: 'LINKO_00020300', type: 1, rect: '1,1,1,1', file: '/storage/emulated/0/Document/a.pdf' },
+            ],
+        }));
+        assert.deepEqual(content.links, [
+            { type: 'page', pageNumber: 1, rect: { x: 1, y: 2, width: 3, height: 4 }, targetPage: 2 },
+            { type: 'note', pageNumber: 1, rect: { x: 5, y: 6, width: 7, height: 8 }, targetPath: '/Note/Work/Plan.note' },
+            { type: 'web', pageNumber: 2, rect: { x: 9, y: 10, width: 11, height: 12 }, url: 'https://example.com/' },
+        ]);
+    });
+
+    it('links to the PDFs of other notes only where they were exported', async () => {
+        const noteFile = buildNoteFile({
+            pages: [{}],
+            links: [
+                { key: 'LINKO_00010100', type: 1, rect: '1,1,1,1', file: '/storage/emulated/0/Note/Work/Plan.note' },
+                { key: 'LINKO_00010200', type: 1, rect: '1,1,1,1', file: '/storage/emulated/0/Note/Other.note' },
+            ],
+        });
+        const pdf = new TextDecoder('latin1').decode(await convertNoteToPdf(noteFile, {
+            pdfPath: 'Supernote/PDFs/Daily.pdf',
+            resolveNotePdf: path => path === '/Note/Work/Plan.note' ? 'Supernote/Work/Plan (2).pdf' : undefined,
+        }));
+        assert.deepEqual(pdf.match(/\/GoToR \/F \(.*?\) \/D/g), ['/GoToR /F (../Work/Plan \\(2\\).pdf) /D']);
+    });
+});
+
+describe('pen strokes', () => {
+    // Digitizer units per A5X pixel
+    const units = 15819 / 1872;
+    const stroke: FixtureStroke = {
+        pen: 1,
+        color: 0,
+        thickness: 100,
+        points: [[Math.round(100 * units), Math.round(200 * units)], [Math.round(300 * units), Math.round(400 * units)]],
+        pressures: [4095, 2048],
+    };
+
+    it('decodes points to pixels with normalized pressure', () => {
+        const [strokes] = extractStrokes(buildNoteFile({ pages: [{ strokes: [stroke] }] }));
+        assert.ok(strokes);
+        assert.equal(strokes.length, 1);
+        assert.equal(strokes[0].pen, 'ink');
+        assert.ok(Math.abs(strokes[0].thickness - A5X_SCALE) < 1e-9);
+
+        const [first, second] = strokes[0].points;
+        assert.ok(Math.abs(first.x - 100) < 0.1 && Math.abs(first.y - 200) < 0.1);
+        assert.ok(Math.abs(second.x - 300) < 0.1 && Math.abs(second.y - 400) < 0.1);
+        assert.equal(first.pressure, 1);
+        assert.ok(Math.abs(second.pressure - 2048 / 4095) < 1e-9);
+    });
+
+    it('scales points to the page size of the device', () => {
+        const corner: FixtureStroke = { ...stroke, points: [[Math.round(1920 * 15819 / 2560), 15819]], pressures: [] };
+        const [strokes] = extractStrokes(buildNoteFile({ equipment: 'N5', pages: [{ strokes: [corner] }] }));
+        assert.ok(strokes);
+
+        const [point] = strokes[0].points;
+        assert.ok(Math.abs(point.x - 1920) < 0.1 && Math.abs(point.y - 2560) < 0.1);
+    });
+
+    it('returns null for pages without stroke data', () => {
+        assert.deepEqual(extractStrokes(buildNoteFile({ pages: [{}] })), [null]);
+    });
+
+    it('leaves pages with unknown pens or colors to the bitmaps', () => {
+        const strokes = extractStrokes(buildNoteFile({
+            pages: [{ strokes: [stroke, { ...stroke, pen: 99 }] }, { strokes: [{ ...stroke, color: 0x42 }] }],
+        }));
+        assert.deepEqual(strokes, [null, null]);
+    });
+
+    it('exports strokes as SVG sized to the page', () => {
+        const [svg] = convertNoteToSvgs(buildNoteFile({ pages: [{ strokes: [stroke] }] }));
+        assert.ok(svg);
+        assert.match(svg, /viewBox="0 0 1404 1872"/);
+        assert.match(svg, /<polyline points="100\.\d,200\.\d /);
+    });
+
+    it('fingerprints pages by their content', async () => {
+        const moved: FixtureStroke = { ...stroke, points: [[10, 10], [20, 20]] };
+        const hashes = await getPageHashes(buildNoteFile({ pages: [{ strokes: [stroke] }, { strokes: [stroke] }, { strokes: [moved] }] }));
+        assert.match(hashes[0], /^[0-9a-f]{64}$/);
+        assert.equal(hashes[0], hashes[1]);
+        assert.notEqual(hashes[0], hashes[2]);
+    });
+
+    it('reuses the images of unchanged pages from the page cache', async () => {
+        const images = new Map<string, Uint8Array>();
+        const pageCache: PageImageCache = {
+            get: key => Promise.resolve(images.get(key) ?? null),
+            set: (key, image) => Promise.resolve(void images.set(key, image)),
+        };
+        const noteFile = buildNoteFile({ pages: [{ strokes: [stroke] }, { strokes: [stroke] }] });
+
+        await convertNoteToPdf(noteFile, { pageCache });
+        assert.equal(images.size, 1);
+
+        const [key] = Array.from(images.keys());
+        images.set(key, new TextEncoder().encode('cached page'));
+        const pdf = new TextDecoder('latin1').decode(await convertNoteToPdf(noteFile, { pageCache }));
+        assert.equal(pdf.match(/cached page/g)?.length, 2);
+    });
+});
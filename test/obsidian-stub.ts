@@ -0,0 +1,13 @@
+/**
+ * Stand-in for the parts of the Obsidian API used by the modules under test.
+ * Obsidian's own YAML helpers are built on js-yaml too.
+ */
+import { dump, load } from 'js-yaml';
+
+export function parseYaml(text: string): unknown {
+    return load(text);
+}
+
+export function stringifyYaml(value: unknown): string {
+    return dump(value);
+}
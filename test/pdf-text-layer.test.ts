@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NoteContent } from '../src/api/types';
+import { addTextLayer, buildTextLayerFont, buildTextLayerOps } from '../src/api/pdf-text-layer';
+
+const content: NoteContent = {
+    pageCount: 1,
+    width: 1404,
+    height: 1872,
+    pages: [{ pageNumber: 1, words: [{ text: '会議 Q3', x: 10, y: 20, width: 100, height: 30 }] }],
+    keywords: [],
+    headings: [],
+    links: [],
+};
+
+/**
+ * A one-page PDF whose cross-reference section is a stream, like those of PDF 1.5 writers
+ */
+function buildXrefStreamPdf(): ArrayBuffer {
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 674 899] /Contents 4 0 R >>',
+        '<< /Length 0 >>\nstream\n\nendstream',
+    ];
+    let pdf = '%PDF-1.7\n';
+    const offsets = objects.map((body, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = pdf.length;
+    const entries = [[0, 0, 65535], ...offsets.map(offset => [1, offset, 0]), [1, xrefOffset, 0]];
+    const data = entries.map(([type, field2, field3]) =>
+        `${type.toString(16).padStart(2, '0')}${field2.toString(16).padStart(8, '0')}${field3.toString(16).padStart(4, '0')}`
+    ).join('') + '>';
+    pdf += `5 0 obj\n<< /Type /XRef /Size 6 /W [1 4 2] /Root 1 0 R /Filter /ASCIIHexDecode /Length ${data.length} >>\nstream\n${data}\nendstream\nendobj\n`;
+    pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf).buffer;
+}
+
+describe('text layer', () => {
+    it('writes words as 2-byte codes, so any script can be searched', () => {
+        const ops = buildTextLayerOps(content.pages[0].words, 0.5, 936, 'F1');
+        assert.match(ops, /^BT 3 Tr \/F1 15\.00 Tf .* <4F1A8B700020005100330020> Tj ET$/);
+    });
+
+    it('maps the codes back to Unicode', () => {
+        const [font, , , toUnicode] = buildTextLayerFont(10);
+        assert.match(font, /\/Subtype \/Type0 .*\/Encoding \/Identity-H \/DescendantFonts \[11 0 R\] \/ToUnicode 13 0 R/);
+        assert.match(toUnicode, /<4F00> <4FFF> <4F00>/);
+        assert.doesNotMatch(toUnicode, /<D800>/);
+    });
+
+    it('appends a cross-reference stream to PDFs that use one', () => {
+        const original = buildXrefStreamPdf();
+        const updated = new TextDecoder('latin1').decode(addTextLayer(original, content));
+        const update = updated.slice(original.byteLength);
+
+        assert.ok(updated.startsWith(new TextDecoder('latin1').decode(original)));
+        assert.doesNotMatch(update, /\ntrailer\n/);
+
+        const startxref = parseInt(/startxref\n(\d+)\n%%EOF\n$/.exec(update)?.[1] ?? '', 10);
+        const xref = updated.slice(startxref);
+        assert.match(xref, /^\d+ 0 obj\n<< .*\/Type \/XRef .*\/Prev \d+/);
+        assert.match(xref, /\/Root 1 0 R/);
+        assert.match(update, /<4F1A8B700020005100330020> Tj/);
+    });
+
+    it('appends a cross-reference table to PDFs that use one', () => {
+        const objects = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 674 899] >>',
+            '<< /Type /Page /Parent 2 0 R >>',
+        ];
+        let pdf = '%PDF-1.4\n';
+        const offsets = objects.map((body, i) => {
+            const offset = pdf.length;
+            pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+            return offset;
+        });
+        const xrefOffset = pdf.length;
+        pdf += `xref\n0 4\n0000000000 65535 f \n${offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')}`;
+        pdf += `trailer\n<< /Size 4 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        const original = new TextEncoder().encode(pdf).buffer;
+        const update = new TextDecoder('latin1').decode(addTextLayer(original, content)).slice(pdf.length);
+
+        assert.match(update, new RegExp(`\\nxref\\n[\\s\\S]*\\ntrailer\\n<< .*/Prev ${xrefOffset} .*>>\\nstartxref\\n\\d+\\n%%EOF\\n$`));
+    });
+
+    it('refuses PDFs that do not match the note', () => {
+        const twoPages = { ...content, pageCount: 2, pages: [content.pages[0], { pageNumber: 2, words: [] }] };
+        assert.throws(() => addTextLayer(buildXrefStreamPdf(), twoPages), /PDF has 1 pages but note has 2/);
+        assert.throws(() => addTextLayer(new TextEncoder().encode('%PDF-1.7\n').buffer, content), /trailer/);
+    });
+});
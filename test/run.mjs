@@ -0,0 +1,36 @@
+/**
+ * Test runner: bundles each test/*.test.ts with esbuild, with the obsidian module
+ * replaced by a stub, and runs the bundles with Node's built-in test runner.
+ */
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+import { fileURLToPath } from "url";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const entryPoints = fs.readdirSync(testDir)
+  .filter(file => file.endsWith(".test.ts"))
+  .map(file => path.join(testDir, file));
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "supernote-tests-"));
+
+try {
+  await esbuild.build({
+    entryPoints,
+    outdir,
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node18",
+    alias: { obsidian: path.join(testDir, "obsidian-stub.ts") },
+    logLevel: "warning",
+  });
+
+  const bundles = entryPoints.map(entry => path.join(outdir, path.basename(entry, ".ts") + ".js"));
+  const result = spawnSync(process.execPath, ["--test", ...bundles], { stdio: "inherit" });
+  process.exitCode = result.status ?? 1;
+} finally {
+  fs.rmSync(outdir, { recursive: true, force: true });
+}
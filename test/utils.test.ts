@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SupernoteFile } from '../src/api/types';
+import { diffLines, withContext } from '../src/utils/diff';
+import { getFilterReason, matchesTrashRule } from '../src/utils/filters';
+import { globBase, matchesGlob } from '../src/utils/glob';
+
+function deviceNote(path: string, id: string = 'F1'): SupernoteFile {
+    return {
+        id,
+        name: path.slice(path.lastIndexOf('/') + 1).replace(/\.note$/, ''),
+        path,
+        size: 1024,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        modifiedAt: '2024-01-02T00:00:00.000Z',
+    };
+}
+
+describe('globs', () => {
+    it('matches any number of folders with **', () => {
+        assert.ok(matchesGlob('/Note/Work/plan.note', '/Note/**/*.note'));
+        assert.ok(matchesGlob('/Note/plan.note', '/Note/**/*.note'));
+        assert.ok(matchesGlob('/Note/Work/2024/plan.note', '/Note/Work/**'));
+    });
+
+    it('keeps * and ? within one name', () => {
+        assert.ok(!matchesGlob('/Note/Work/plan.note', '/Note/*.note'));
+        assert.ok(matchesGlob('/Note/a1.note', '/Note/a?.note'));
+        assert.ok(!matchesGlob('/Note/a12.note', '/Note/a?.note'));
+    });
+
+    it('treats regex characters literally', () => {
+        assert.ok(matchesGlob('/Note/(draft) v1.0.note', '/Note/(draft) v1.0.note'));
+        assert.ok(!matchesGlob('/Note/draft v1x0.note', '/Note/draft v1.0.note'));
+    });
+
+    it('finds the folder before the first wildcard', () => {
+        assert.equal(globBase('/Note/Work/**'), '/Note/Work');
+        assert.equal(globBase('/Note/*.note'), '/Note');
+        assert.equal(globBase('*.note'), '');
+    });
+});
+
+describe('trash rules', () => {
+    const note = deviceNote('/Note/Templates/Weekly.note');
+
+    it('matches notes by ID and legacy ID', () => {
+        assert.ok(matchesTrashRule(note, { type: 'note', value: 'F1', label: '', trashedAt: 0 }));
+        assert.ok(matchesTrashRule({ ...note, legacyId: 'old' }, { type: 'note', value: 'old', label: '', trashedAt: 0 }));
+        assert.ok(!matchesTrashRule(note, { type: 'note', value: 'F2', label: '', trashedAt: 0 }));
+    });
+
+    it('matches whole folders only', () => {
+        assert.ok(matchesTrashRule(note, { type: 'folder', value: '/Note/Templates', label: '', trashedAt: 0 }));
+        assert.ok(matchesTrashRule(note, { type: 'folder', value: '/Note/Templates/', label: '', trashedAt: 0 }));
+        assert.ok(!matchesTrashRule(note, { type: 'folder', value: '/Note/Temp', label: '', trashedAt: 0 }));
+        assert.ok(!matchesTrashRule(note, { type: 'folder', value: '', label: '', trashedAt: 0 }));
+    });
+
+    it('matches patterns on the device path', () => {
+        assert.ok(matchesTrashRule(note, { type: 'pattern', value: '**/Weekly.note', label: '', trashedAt: 0 }));
+        assert.ok(!matchesTrashRule(note, { type: 'pattern', value: '/Note/*.note', label: '', trashedAt: 0 }));
+    });
+});
+
+describe('note filters', () => {
+    it('gives the first reason a note is left out', () => {
+        const note = deviceNote('/Note/Work/Plan.note');
+        assert.equal(getFilterReason(note, {}), null);
+        assert.equal(getFilterReason(note, { excludePaths: ['/Note/Work/**'] }), 'Path matches excluded /Note/Work/**');
+        assert.equal(getFilterReason(note, { includePaths: ['/Note/Home/**'] }), 'Path matches no included folder');
+        assert.equal(getFilterReason(note, { excludePatterns: [/^Plan$/] }), 'Name matches excluded ^Plan$');
+        assert.equal(getFilterReason(note, { minSize: 2048 }), 'Smaller than 2 KB');
+    });
+});
+
+describe('line diff', () => {
+    it('marks added and removed lines', () => {
+        assert.deepEqual(diffLines('a\nb\nc', 'a\nx\nc'), [
+            { type: 'same', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'x' },
+            { type: 'same', text: 'c' },
+        ]);
+    });
+
+    it('keeps context around changes', () => {
+        const diff = diffLines('1\n2\n3\n4\n5\n6', '1\n2\n3\n4\n5\nsix');
+        assert.deepEqual(withContext(diff, 1), [
+            null,
+            { type: 'same', text: '5' },
+            { type: 'removed', text: '6' },
+            { type: 'added', text: 'six' },
+        ]);
+    });
+});